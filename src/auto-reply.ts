@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+/**
+ * 自动回复：无人值守时按规则自动回答 interactive_feedback 请求
+ * （规则保存在设置中，第一条匹配的规则生效；连续自动回复的轮数有上限，用户手动回复后重新计数）
+ */
+
+export interface AutoReplyRule {
+  name?: string;
+  summary?: string; // 匹配摘要的正则（不区分大小写）
+  project?: string; // 匹配项目目录的正则（不区分大小写）
+  minRound?: number; // 只在第 N 轮及之后生效（轮数从插件启动或结束对话后开始计算）
+  maxRound?: number; // 只在第 N 轮及之前生效
+  reply: string; // 回复内容（支持回复模板的变量）
+  delay?: number; // 等待多少秒后回复（在此期间用户可以自己回复），默认 0
+}
+
+export interface AutoReplySettings {
+  enabled: boolean;
+  maxRounds: number;
+  rules: AutoReplyRule[];
+}
+
+/**
+ * 读取自动回复设置
+ */
+export function getAutoReplySettings(): AutoReplySettings {
+  const config = vscode.workspace.getConfiguration('cursorFeedback.autoReply');
+  const rules = config.get<unknown[]>('rules', []);
+  return {
+    enabled: config.get<boolean>('enabled', false),
+    maxRounds: Math.max(0, config.get<number>('maxRounds', 5)),
+    rules: (Array.isArray(rules) ? rules : [])
+      .filter((rule): rule is AutoReplyRule => !!rule && typeof (rule as AutoReplyRule).reply === 'string'),
+  };
+}
+
+/**
+ * 规则的显示名称（用于历史记录）
+ */
+export function getRuleLabel(rule: AutoReplyRule, index: number): string {
+  return rule.name || `#${index + 1}`;
+}
+
+function matches(pattern: string | undefined, text: string): boolean {
+  if (!pattern) {
+    return true;
+  }
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch (error) {
+    console.error(`Invalid auto-reply pattern ${pattern}:`, error);
+    return false;
+  }
+}
+
+/**
+ * 查找第一条匹配请求的规则，没有时返回 null
+ */
+export function findAutoReplyRule(
+  rules: AutoReplyRule[],
+  request: { summary: string; projectDir: string },
+  round: number
+): { rule: AutoReplyRule; index: number } | null {
+  const index = rules.findIndex(rule =>
+    matches(rule.summary, request.summary)
+    && matches(rule.project, request.projectDir)
+    && (rule.minRound === undefined || round >= rule.minRound)
+    && (rule.maxRound === undefined || round <= rule.maxRound));
+  return index >= 0 ? { rule: rules[index], index } : null;
+}
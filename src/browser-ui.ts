@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+/**
+ * 浏览器界面：没有安装插件时（例如在 Claude Desktop 等其他 MCP 客户端中使用 npm 包），
+ * 由 MCP Server 的 HTTP 服务直接提供与侧边栏相同的 WebView 页面（src/webview/*），
+ * browser-host.js 在浏览器中实现 acquireVsCodeApi()，通过 HTTP API 和事件推送与 Server 通信
+ */
+
+// 页面可以加载的静态资源（/ui/<名称>）
+const ASSETS: Record<string, { file: string; contentType: string }> = {
+  'styles.css': { file: path.join(__dirname, 'webview', 'styles.css'), contentType: 'text/css; charset=utf-8' },
+  'script.js': { file: path.join(__dirname, 'webview', 'script.js'), contentType: 'text/javascript; charset=utf-8' },
+  'browser-host.js': { file: path.join(__dirname, 'webview', 'browser-host.js'), contentType: 'text/javascript; charset=utf-8' },
+  'marked.min.js': { file: path.join(__dirname, '..', 'resources', 'vendor', 'marked.min.js'), contentType: 'text/javascript; charset=utf-8' },
+};
+
+const SUPPORTED_LANGUAGES = ['zh-CN', 'en'];
+
+/**
+ * 选择页面语言：?lang= 参数优先，其次是浏览器的 Accept-Language
+ */
+function pickLanguage(lang: string | null, acceptLanguage: string | undefined): string {
+  if (lang && SUPPORTED_LANGUAGES.includes(lang)) {
+    return lang;
+  }
+  return acceptLanguage?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
+
+/**
+ * 读取语言消息（与插件相同，找不到时回退到简体中文）
+ */
+function loadMessages(lang: string): Record<string, string> {
+  const langFile = path.join(__dirname, 'i18n', `${lang}.json`);
+  const defaultFile = path.join(__dirname, 'i18n', 'zh-CN.json');
+  return JSON.parse(fs.readFileSync(fs.existsSync(langFile) ? langFile : defaultFile, 'utf-8'));
+}
+
+/**
+ * 生成浏览器页面（token 附加在资源地址中，页面脚本从地址栏读取）
+ */
+export function renderBrowserPage(token: string, lang: string | null, acceptLanguage: string | undefined): string {
+  const language = pickLanguage(lang, acceptLanguage);
+  const messages = loadMessages(language);
+  const assetUri = (name: string) => `/ui/${name}?token=${encodeURIComponent(token)}`;
+  // 内联脚本只允许带 nonce 的 i18n 数据：摘要和导入的历史记录经 marked 渲染后通过 innerHTML 插入，
+  // 其中的 <img onerror> 等事件处理器不能执行（否则可以读取地址中的 token 并调用 API）
+  const nonce = crypto.randomBytes(16).toString('base64');
+  const csp = `default-src 'none'; style-src 'self'; script-src 'nonce-${nonce}' 'self'; img-src data:; connect-src 'self';`;
+
+  return fs.readFileSync(path.join(__dirname, 'webview', 'index.html'), 'utf-8')
+    .replace(/\{\{CSP\}\}/g, csp)
+    .replace(/\{\{NONCE\}\}/g, nonce)
+    .replace(/\{\{LANG\}\}/g, language)
+    .replace(/\{\{MARKED_JS_URI\}\}/g, assetUri('marked.min.js'))
+    .replace(/\{\{STYLES_CSS_URI\}\}/g, assetUri('styles.css'))
+    .replace(/\{\{SCRIPT_JS_URI\}\}/g, assetUri('script.js'))
+    .replace(/\{\{I18N_JSON\}\}/g, JSON.stringify(messages))
+    .replace(/\{\{i18n\.(\w+)\}\}/g, (_, key) => messages[key] || key)
+    // 在页面脚本之前加载 acquireVsCodeApi 的浏览器实现
+    .replace('</head>', `  <script src="${assetUri('browser-host.js')}"></script>\n</head>`);
+}
+
+/**
+ * 读取静态资源，名称不在列表中时返回 null
+ */
+export function readBrowserAsset(name: string): { content: Buffer; contentType: string } | null {
+  const asset = Object.prototype.hasOwnProperty.call(ASSETS, name) ? ASSETS[name] : undefined;
+  if (!asset) {
+    return null;
+  }
+  return { content: fs.readFileSync(asset.file), contentType: asset.contentType };
+}
+
+/**
+ * 在默认浏览器中打开地址
+ */
+export function openInBrowser(url: string, onError: (error: Error) => void): void {
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [url]]
+    : process.platform === 'win32'
+      ? ['cmd', ['/c', 'start', '""', url]]
+      : ['xdg-open', [url]];
+  // stdio 必须忽略：stdout 是 MCP 协议通道
+  const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+  child.on('error', onError);
+  child.unref();
+}
@@ -0,0 +1,624 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as readline from 'readline';
+import { FormField, validateFormValues } from './form-fields';
+import { checkImages, getImageLimits, ImageLimits, sniffImage } from './images';
+import { ServerEntry, TOKEN_HEADER, normalizeWorkspacePath, readServerEntries } from './server-registry';
+
+/**
+ * 终端反馈客户端（没有图形界面的 SSH 会话中使用）
+ *
+ *   cursor-feedback-mcp reply [--workspace <dir>] [--request <id>] [--message <text>]
+ *                             [--file <path>]... [--image <path>]... [--wait]
+ *   cursor-feedback-mcp watch [--workspace <dir>]
+ *
+ * 通过登记文件找到本机的 Server，在终端中显示 AI 摘要（渲染 Markdown），读取多行回复后提交
+ */
+
+interface CliOptions {
+  workspace: string | null; // 只处理这个工作区的请求
+  requestId: string | null;
+  message: string | null; // 直接指定回复内容，不再交互输入
+  files: string[];
+  images: string[];
+  wait: boolean; // 没有待处理请求时等待新请求
+}
+
+// Server 返回的待处理请求（只列出终端客户端用到的字段）
+interface PendingRequest {
+  id: string;
+  summary: string;
+  projectDir: string;
+  timeout: number;
+  timestamp: number;
+  kind?: 'feedback' | 'form' | 'approval';
+  options?: string[];
+  multiSelect?: boolean;
+  fields?: FormField[];
+  actionType?: string;
+  details?: string;
+  imageLimits?: Partial<ImageLimits>;
+}
+
+interface ServerRequest {
+  entry: ServerEntry;
+  request: PendingRequest;
+}
+
+// 多行输入的结束标记（也可以使用 Ctrl-D）
+const END_OF_INPUT = '.';
+
+// 输出到终端时才使用颜色（遵循 NO_COLOR 约定）
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+function style(code: string, text: string): string {
+  return useColor ? `\x1b[${code}m${text}\x1b[0m` : text;
+}
+const bold = (text: string) => style('1', text);
+const dim = (text: string) => style('2', text);
+const cyan = (text: string) => style('36', text);
+
+/**
+ * 解析命令行参数
+ */
+function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { workspace: null, requestId: null, message: null, files: [], images: [], wait: false };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    const takesValue = ['--workspace', '--request', '--message', '--file', '--image'].includes(argv[i]);
+    if (takesValue && value === undefined) {
+      throw new Error(`${argv[i]} requires a value`);
+    }
+    switch (argv[i]) {
+      case '--workspace':
+        options.workspace = normalizeWorkspacePath(path.resolve(value));
+        break;
+      case '--request':
+        options.requestId = value;
+        break;
+      case '--message':
+        options.message = value;
+        break;
+      case '--file':
+        options.files.push(value);
+        break;
+      case '--image':
+        options.images.push(value);
+        break;
+      case '--wait':
+        options.wait = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+    if (takesValue) {
+      i++;
+    }
+  }
+  return options;
+}
+
+/**
+ * 构造访问 Server 的请求参数（TCP 端口携带 token，只使用 socket 的 Server 通过 socket 访问）
+ */
+function requestOptions(entry: ServerEntry, urlPath: string): http.RequestOptions {
+  return entry.port !== null
+    ? { hostname: '127.0.0.1', port: entry.port, path: urlPath, headers: { [TOKEN_HEADER]: entry.token } }
+    : { socketPath: entry.socketPath, path: urlPath };
+}
+
+/**
+ * 调用 Server 的 HTTP API，返回解析后的 JSON
+ */
+function apiRequest(entry: ServerEntry, method: string, urlPath: string, body?: unknown): Promise<{ status: number; data: any }> {
+  return new Promise((resolve, reject) => {
+    const options = requestOptions(entry, urlPath);
+    const req = http.request({
+      ...options,
+      method,
+      headers: { ...options.headers, 'Content-Type': 'application/json' },
+      timeout: 5000,
+    }, (res) => {
+      let text = '';
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => {
+        try {
+          resolve({ status: res.statusCode || 0, data: JSON.parse(text) });
+        } catch {
+          reject(new Error(`Invalid response (HTTP ${res.statusCode})`));
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('Request timed out')));
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+/**
+ * 请求是否属于指定的工作区（未指定时接受所有请求）
+ */
+function matchesWorkspace(options: CliOptions, request: PendingRequest): boolean {
+  if (!options.workspace) {
+    return true;
+  }
+  const projectDir = normalizeWorkspacePath(request.projectDir);
+  return projectDir === options.workspace || options.workspace.startsWith(projectDir + '/');
+}
+
+/**
+ * 读取所有 Server 的待处理请求（按创建时间排序）
+ */
+async function fetchPending(options: CliOptions): Promise<ServerRequest[]> {
+  const results = await Promise.all(readServerEntries().map(async (entry) => {
+    try {
+      const { data } = await apiRequest(entry, 'GET', '/api/feedback/pending');
+      return ((data.requests || []) as PendingRequest[]).map(request => ({ entry, request }));
+    } catch {
+      // Server 可能正在退出
+      return [];
+    }
+  }));
+  return results.flat()
+    .filter(({ request }) => matchesWorkspace(options, request))
+    .sort((a, b) => a.request.timestamp - b.request.timestamp);
+}
+
+/**
+ * 订阅所有 Server 的事件推送，直到出现新的请求（knownIds 中的请求不算新请求）
+ * 定期重新读取登记文件，订阅之后启动的 Server
+ */
+function waitForNewRequest(options: CliOptions, knownIds: Set<string>): Promise<ServerRequest> {
+  return new Promise((resolve) => {
+    const subscriptions = new Map<number, http.ClientRequest>();
+
+    const finish = (result: ServerRequest) => {
+      clearInterval(rescanTimer);
+      for (const req of subscriptions.values()) {
+        req.destroy();
+      }
+      resolve(result);
+    };
+
+    const subscribe = (entry: ServerEntry) => {
+      const req = http.get(requestOptions(entry, '/api/events'), (res) => {
+        let buffer = '';
+        res.setEncoding('utf-8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          let index;
+          while ((index = buffer.indexOf('\n\n')) >= 0) {
+            const block = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            const event = /^event: (.*)$/m.exec(block)?.[1];
+            const data = /^data: (.*)$/m.exec(block)?.[1];
+            if (!data || (event !== 'snapshot' && event !== 'request-created')) {
+              continue;
+            }
+            // 快照中可能包含读取待处理请求之后、订阅之前创建的请求
+            let parsed;
+            try {
+              parsed = JSON.parse(data);
+            } catch {
+              // 格式错误或不完整的事件：跳过
+              continue;
+            }
+            const requests = (event === 'snapshot' ? parsed.requests || [] : [parsed.request]) as PendingRequest[];
+            const request = requests.find(r => !knownIds.has(r.id) && matchesWorkspace(options, r));
+            if (request) {
+              finish({ entry, request });
+              return;
+            }
+          }
+        });
+        res.on('end', () => subscriptions.delete(entry.pid));
+      });
+      req.on('error', () => subscriptions.delete(entry.pid));
+      subscriptions.set(entry.pid, req);
+    };
+
+    const rescan = () => {
+      for (const entry of readServerEntries()) {
+        if (!subscriptions.has(entry.pid)) {
+          subscribe(entry);
+        }
+      }
+    };
+    const rescanTimer = setInterval(rescan, 2000);
+    rescan();
+  });
+}
+
+/**
+ * 将 Markdown 渲染为终端文本（标题、强调、行内代码、代码块、列表、引用、链接）
+ */
+function renderMarkdownForTerminal(markdown: string): string {
+  const inline = (text: string) => text
+    .replace(/`([^`]+)`/g, (_, code) => cyan(code))
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => bold(a ?? b))
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, (_, before, text) => before + style('3', text))
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, label, url) => `${style('4', label)} ${dim(`(${url})`)}`);
+
+  const lines: string[] = [];
+  let fence: string | null = null;
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const fenceMatch = /^\s*(`{3,}|~{3,})\s*(\S*)/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      } else {
+        lines.push(`    ${cyan(line)}`);
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      if (fenceMatch[2]) {
+        lines.push(dim(`  [${fenceMatch[2]}]`));
+      }
+      continue;
+    }
+
+    let match;
+    if ((match = /^(#{1,6})\s+(.*)$/.exec(line))) {
+      lines.push(match[1].length === 1 ? style('1;4', match[2]) : bold(match[2]));
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      lines.push(dim('─'.repeat(40)));
+    } else if ((match = /^>\s?(.*)$/.exec(line))) {
+      lines.push(dim(`│ ${match[1]}`));
+    } else if ((match = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/.exec(line))) {
+      const bullet = match[2] === undefined ? '•' : (match[2] === ' ' ? '☐' : '☑');
+      lines.push(`${match[1]}  ${bullet} ${inline(match[3])}`);
+    } else {
+      lines.push(inline(line));
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 在终端中显示请求
+ */
+function printRequest({ entry, request }: ServerRequest) {
+  const remaining = Math.max(0, request.timeout - Math.floor((Date.now() - request.timestamp) / 1000));
+  const kind = request.kind || 'feedback';
+  console.log('');
+  console.log(dim(`━━ ${kind} · ${request.projectDir} · pid ${entry.pid} · ${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')} left`));
+  console.log('');
+  console.log(renderMarkdownForTerminal(request.summary));
+  if (kind === 'approval') {
+    console.log('');
+    console.log(bold(`Action: ${request.actionType || '-'}`));
+    if (request.details) {
+      console.log(renderMarkdownForTerminal('```\n' + request.details + '\n```'));
+    }
+  }
+  console.log('');
+}
+
+/**
+ * 按行读取输入（终端和管道输入都适用），输入结束后返回 null
+ */
+class LineReader {
+  private readonly rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+  private readonly lines = this.rl[Symbol.asyncIterator]();
+
+  async next(prompt = ''): Promise<string | null> {
+    if (prompt) {
+      process.stdout.write(prompt);
+    }
+    const { value, done } = await this.lines.next();
+    return done ? null : value;
+  }
+
+  /**
+   * 读取多行文本，直到单独一行的 "." 或输入结束
+   * onCommand 处理 ":" 开头的命令行，返回 true 表示已处理（不计入文本）
+   */
+  async readBlock(onCommand?: (line: string) => boolean): Promise<string> {
+    const lines: string[] = [];
+    let line;
+    while ((line = await this.next()) !== null && line !== END_OF_INPUT) {
+      if (!(onCommand && line.startsWith(':') && onCommand(line))) {
+        lines.push(line);
+      }
+    }
+    return lines.join('\n').trim();
+  }
+
+  close() {
+    this.rl.close();
+  }
+}
+
+/**
+ * 选择要回复的请求
+ */
+async function chooseRequest(reader: LineReader, pending: ServerRequest[], options: CliOptions): Promise<ServerRequest | null> {
+  if (options.requestId) {
+    return pending.find(({ request }) => request.id.startsWith(options.requestId!)) || null;
+  }
+  if (pending.length === 1) {
+    return pending[0];
+  }
+  pending.forEach(({ entry, request }, i) => {
+    console.log(`  [${i + 1}] ${request.summary.split('\n')[0]} ${dim(`(${request.projectDir}, pid ${entry.pid})`)}`);
+  });
+  while (true) {
+    const answer = await reader.next(`Select a request [1-${pending.length}]: `);
+    if (answer === null) {
+      return null;
+    }
+    const index = parseInt(answer, 10) - 1;
+    if (pending[index]) {
+      return pending[index];
+    }
+  }
+}
+
+/**
+ * 读取预定义选项的选择（序号，多选时用逗号分隔）
+ */
+async function readSelectedOptions(reader: LineReader, request: PendingRequest): Promise<string[]> {
+  const options = request.options || [];
+  if (options.length === 0) {
+    return [];
+  }
+  options.forEach((option, i) => console.log(`  [${i + 1}] ${option}`));
+  const hint = request.multiSelect ? 'e.g. 1,3' : 'one number';
+  while (true) {
+    const answer = await reader.next(`Select options (${hint}, empty to skip): `);
+    if (!answer?.trim()) {
+      return [];
+    }
+    const indexes = answer.split(/[\s,]+/).filter(Boolean).map(n => parseInt(n, 10) - 1);
+    if (indexes.every(i => options[i] !== undefined) && (request.multiSelect || indexes.length === 1)) {
+      return Array.from(new Set(indexes)).map(i => options[i]);
+    }
+    console.log('Invalid selection');
+  }
+}
+
+/**
+ * 将输入转换为字段值（空输入使用默认值）
+ */
+function parseFieldValue(field: FormField, answer: string): unknown {
+  const text = answer.trim();
+  if (!text) {
+    return field.default;
+  }
+  switch (field.type) {
+    case 'boolean':
+      return /^(y|yes|true|1)$/i.test(text) ? true : /^(n|no|false|0)$/i.test(text) ? false : text;
+    case 'number':
+      return Number(text);
+    case 'enum': {
+      const index = parseInt(text, 10) - 1;
+      return /^\d+$/.test(text) && field.options?.[index] !== undefined ? field.options[index] : text;
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * 逐个字段读取表单（ask_user），校验不通过时重新输入出错的字段
+ */
+async function readFormValues(reader: LineReader, fields: FormField[]): Promise<Record<string, unknown> | null> {
+  const values: Record<string, unknown> = {};
+  let pendingFields = fields;
+  while (pendingFields.length > 0) {
+    for (const field of pendingFields) {
+      const hints = [field.type === 'enum' ? field.options?.map((o, i) => `${i + 1}=${o}`).join(' ') : field.type];
+      if (field.default !== undefined) {
+        hints.push(`default: ${field.default}`);
+      }
+      if (field.description) {
+        console.log(dim(`  ${field.description}`));
+      }
+      const answer = await reader.next(`${field.label || field.name}${field.required ? '*' : ''} [${hints.join(', ')}]: `);
+      if (answer === null) {
+        return null;
+      }
+      values[field.name] = parseFieldValue(field, answer);
+    }
+    // 只重新输入出错的字段
+    pendingFields = pendingFields.filter(field => {
+      const errors = validateFormValues([field], values);
+      errors.forEach(error => console.log(`✗ ${error}`));
+      return errors.length > 0;
+    });
+  }
+  return values;
+}
+
+/**
+ * 读取审批结果（request_approval）
+ */
+async function readApproval(reader: LineReader, request: PendingRequest): Promise<{ decision: string; edits?: string } | null> {
+  while (true) {
+    const answer = (await reader.next('[a]pprove / approve with [e]dits / [r]eject: '))?.trim().toLowerCase();
+    if (answer === undefined) {
+      return null;
+    }
+    if (answer === 'a') {
+      return { decision: 'approved' };
+    }
+    if (answer === 'r') {
+      return { decision: 'rejected' };
+    }
+    if (answer === 'e') {
+      console.log(dim(`Enter the edited details (current: ${JSON.stringify(request.details || '')}), end with "${END_OF_INPUT}":`));
+      return { decision: 'approved_with_edits', edits: await reader.readBlock() };
+    }
+  }
+}
+
+/**
+ * 读取图片附件
+ */
+function readImage(imagePath: string): { name: string; data: string; size: number } {
+  let content: Buffer;
+  try {
+    content = fs.readFileSync(imagePath);
+  } catch (error) {
+    throw new Error(`Cannot read image ${imagePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  // 按文件内容判断格式（Server 也会再次检查）
+  if (!sniffImage(content)) {
+    throw new Error(`Unsupported image type: ${imagePath}`);
+  }
+  return { name: path.basename(imagePath), data: content.toString('base64'), size: content.length };
+}
+
+/**
+ * 按 Server 的限制检查图片（Server 不缩小图片，超过最大边长或大小限制的图片不会发送给 AI），不通过时抛出错误
+ */
+function checkAttachedImages(images: Array<{ name: string; data: string; size: number }>, limits: ImageLimits) {
+  const { rejected } = checkImages(images, limits);
+  if (rejected.length > 0) {
+    throw new Error(rejected.map(image => `Image ${image.name}: ${image.reason}`).join('; '));
+  }
+}
+
+/**
+ * reply：选择待处理的请求，读取回复并提交
+ */
+async function reply(options: CliOptions): Promise<number> {
+  // 先读取 --image 指定的图片，路径错误时直接退出
+  let images: Array<{ name: string; data: string; size: number }>;
+  try {
+    images = options.images.map(readImage);
+  } catch (error) {
+    console.log(`✗ ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+
+  const reader = new LineReader();
+  try {
+    let pending = await fetchPending(options);
+    if (pending.length === 0) {
+      if (!options.wait) {
+        console.log('No pending feedback requests');
+        return 1;
+      }
+      console.log(dim('Waiting for a feedback request... (Ctrl-C to quit)'));
+      pending = [await waitForNewRequest(options, new Set())];
+    }
+
+    const target = await chooseRequest(reader, pending, options);
+    if (!target) {
+      console.log('Request not found');
+      return 1;
+    }
+    const { entry, request } = target;
+    printRequest(target);
+
+    // 旧版 Server 的请求不带限制，使用本地的环境变量
+    const imageLimits: ImageLimits = { ...getImageLimits(), ...request.imageLimits };
+    try {
+      checkAttachedImages(images, imageLimits);
+    } catch (error) {
+      console.log(`✗ ${error instanceof Error ? error.message : error}`);
+      return 1;
+    }
+
+    const attachedFiles = options.files.map(file => path.resolve(file));
+    let selectedOptions: string[] = [];
+    let formValues: Record<string, unknown> | undefined;
+    let approval: { decision: string; edits?: string } | undefined;
+    let feedback = options.message;
+
+    // 表单和审批总是需要交互输入；--message 只替代回复文本。输入在填完之前结束时不提交
+    if (request.kind === 'form') {
+      const values = await readFormValues(reader, request.fields || []);
+      if (!values) {
+        console.log('✗ Input ended before the form was complete, nothing was submitted');
+        return 1;
+      }
+      formValues = values;
+    } else if (request.kind === 'approval') {
+      const decision = await readApproval(reader, request);
+      if (!decision) {
+        console.log('✗ Input ended before a decision was made, nothing was submitted');
+        return 1;
+      }
+      approval = decision;
+    } else if (feedback === null) {
+      selectedOptions = await readSelectedOptions(reader, request);
+    }
+
+    if (feedback === null) {
+      console.log(dim(`Enter your feedback, end with a line containing only "${END_OF_INPUT}" or Ctrl-D.`));
+      console.log(dim('Attach with ":file <path>" or ":image <path>" on their own line.'));
+      feedback = await reader.readBlock((line) => {
+        const match = /^:(file|image)\s+(.+)$/.exec(line.trim());
+        if (!match) {
+          return false;
+        }
+        try {
+          if (match[1] === 'image') {
+            const image = readImage(match[2]);
+            checkAttachedImages([...images, image], imageLimits);
+            images.push(image);
+          } else {
+            attachedFiles.push(path.resolve(match[2]));
+          }
+          console.log(dim(`+ ${match[2]}`));
+        } catch (error) {
+          console.log(`✗ ${error instanceof Error ? error.message : error}`);
+        }
+        return true;
+      });
+    }
+
+    for (const file of attachedFiles) {
+      if (!fs.existsSync(file)) {
+        console.log(`Warning: ${file} does not exist`);
+      }
+    }
+
+    const { status, data } = await apiRequest(entry, 'POST', '/api/feedback/submit', {
+      requestId: request.id,
+      feedback: {
+        interactive_feedback: feedback,
+        images,
+        attachedFiles,
+        project_directory: request.projectDir,
+        selectedOptions,
+        formValues,
+        approvalDecision: approval?.decision,
+        approvalEdits: approval?.edits,
+      },
+    });
+    if (status !== 200 || !data.success) {
+      console.log(`✗ Submit failed: ${data.error || `HTTP ${status}`}`);
+      return 1;
+    }
+    console.log('✓ Feedback submitted');
+    for (const image of (data.rejectedImages || []) as Array<{ name: string; reason: string }>) {
+      console.log(`Warning: image ${image.name} was not sent: ${image.reason}`);
+    }
+    return 0;
+  } finally {
+    reader.close();
+  }
+}
+
+/**
+ * watch：等待新的请求，显示后退出（可以与 reply 组合使用）
+ */
+async function watch(options: CliOptions): Promise<number> {
+  console.log(dim('Waiting for a new feedback request... (Ctrl-C to quit)'));
+  const knownIds = new Set((await fetchPending(options)).map(({ request }) => request.id));
+  printRequest(await waitForNewRequest(options, knownIds));
+  return 0;
+}
+
+/**
+ * 运行终端客户端，返回进程退出码
+ */
+export async function runCli(command: 'reply' | 'watch', argv: string[]): Promise<number> {
+  const options = parseCliArgs(argv);
+  return command === 'reply' ? reply(options) : watch(options);
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+
+/**
+ * 代码变更（AI 通过 interactive_feedback 的 changes 参数传入）
+ */
+export interface ChangeEntry {
+  path: string;
+  diff?: string;
+}
+
+/**
+ * 解析后的 diff 行
+ */
+export interface DiffLine {
+  type: 'add' | 'del' | 'ctx';
+  text: string;
+}
+
+/**
+ * 解析后的 hunk
+ */
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * 在 WebView 中展示的文件变更
+ */
+export interface FileChange {
+  path: string; // AI 传入的路径（用于返回评论）
+  absolutePath: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  error?: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * 解析 unified diff，返回所有 hunk（忽略文件头）
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      current = {
+        header: line,
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+        lines: [],
+      };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      current.lines.push({ type: 'add', text: line.slice(1) });
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      current.lines.push({ type: 'del', text: line.slice(1) });
+    } else if (line.startsWith(' ')) {
+      current.lines.push({ type: 'ctx', text: line.slice(1) });
+    } else if (line.startsWith('diff ')) {
+      // 下一个文件开始
+      current = null;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * 反向应用 hunk，从修改后的内容还原出修改前的内容
+ * 内容与 diff 对不上时返回 null
+ */
+export function reverseApply(content: string, hunks: DiffHunk[]): string | null {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const result: string[] = [];
+  let cursor = 0; // 当前内容中已处理到的行（0-based）
+
+  for (const hunk of hunks) {
+    // 纯删除的 hunk（newLines 为 0，例如 git diff -U0）中 newStart 是删除位置的前一行
+    const start = Math.max(0, hunk.newLines === 0 ? hunk.newStart : hunk.newStart - 1);
+    if (start < cursor) {
+      return null;
+    }
+    result.push(...lines.slice(cursor, start));
+    cursor = start;
+
+    for (const line of hunk.lines) {
+      if (line.type === 'del') {
+        result.push(line.text);
+        continue;
+      }
+      if (lines[cursor] !== line.text) {
+        return null;
+      }
+      if (line.type === 'ctx') {
+        result.push(line.text);
+      }
+      cursor++;
+    }
+  }
+
+  result.push(...lines.slice(cursor));
+  return result.join(eol);
+}
+
+/**
+ * 执行 git 命令，失败时返回 null
+ */
+export function runGit(args: string[], cwd: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+      resolve(error ? null : stdout);
+    });
+  });
+}
+
+/**
+ * 准备要在 WebView 中展示的变更：有 diff 时直接解析，只有路径时使用 git diff HEAD
+ */
+export async function prepareChanges(changes: ChangeEntry[], projectDir: string): Promise<FileChange[]> {
+  return Promise.all(changes.map(async (change) => {
+    const absolutePath = path.isAbsolute(change.path) ? change.path : path.join(projectDir, change.path);
+    let diff = change.diff;
+    let error: string | undefined;
+
+    if (!diff) {
+      diff = await runGit(['diff', 'HEAD', '--', absolutePath], path.dirname(absolutePath)) ?? undefined;
+      if (diff === undefined) {
+        error = 'git diff failed';
+      }
+    }
+
+    const hunks = diff ? parseUnifiedDiff(diff) : [];
+    return {
+      path: change.path,
+      absolutePath,
+      hunks,
+      additions: hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'add').length, 0),
+      deletions: hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'del').length, 0),
+      error,
+    };
+  }));
+}
+
+/**
+ * 获取文件修改前的内容：优先反向应用 diff，失败时使用 git HEAD 版本
+ */
+export async function getOriginalContent(change: FileChange): Promise<string> {
+  let current = '';
+  try {
+    current = fs.readFileSync(change.absolutePath, 'utf-8');
+  } catch {
+    // 文件可能已被删除
+  }
+
+  if (change.hunks.length > 0) {
+    const original = reverseApply(current, change.hunks);
+    if (original !== null) {
+      return original;
+    }
+  }
+
+  const cwd = path.dirname(change.absolutePath);
+  const relative = await runGit(['ls-files', '--full-name', '--', path.basename(change.absolutePath)], cwd);
+  const head = relative?.trim()
+    ? await runGit(['show', `HEAD:${relative.trim()}`], cwd)
+    : null;
+  return head ?? '';
+}
+
+/**
+ * 提供"修改前"文档内容的虚拟文档 Provider，用于 VS Code 原生 diff 编辑器
+ */
+export class OriginalContentProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'cursor-feedback-original';
+  private _contents: Map<string, string> = new Map();
+
+  /**
+   * 保存修改前的内容，返回对应的虚拟文档 URI
+   */
+  public register(filePath: string, content: string): vscode.Uri {
+    const key = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    this._contents.set(key, content);
+    // 只保留最近的 50 份内容
+    if (this._contents.size > 50) {
+      const oldest = this._contents.keys().next().value;
+      if (oldest !== undefined) {
+        this._contents.delete(oldest);
+      }
+    }
+    return vscode.Uri.from({
+      scheme: OriginalContentProvider.scheme,
+      path: filePath.replace(/\\/g, '/').replace(/^(?!\/)/, '/'),
+      query: key,
+    });
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this._contents.get(uri.query) ?? '';
+  }
+}
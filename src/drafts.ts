@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { EditorContextItem } from './editor-context';
+
+/**
+ * 请求超时时未提交的输入（不保存图片，避免 workspaceState 过大）
+ */
+export interface FeedbackDraft {
+  text: string;
+  files: string[];
+  contextItems?: EditorContextItem[];
+  selectedOptions?: string[];
+  formValues?: Record<string, unknown>;
+}
+
+interface SavedDraft {
+  draft: FeedbackDraft;
+  endedRequestTimestamp: number;
+  savedAt: number; // 本机时间，只用于判断草稿是否过期
+}
+
+/**
+ * 请求结束的原因（来自 Server 的事件或轮询结果）
+ * 只有超时和 AI 端取消的请求保存草稿；已在其他地方（命令行、浏览器界面、回复链接）回复或由用户结束的请求不保存
+ */
+export type RequestEndReason = 'submitted' | 'timeout' | 'cancelled' | 'dismissed' | 'ended';
+
+export function shouldSaveDraft(reason: RequestEndReason | undefined): boolean {
+  return reason === 'timeout' || reason === 'cancelled';
+}
+
+const STORAGE_KEY = 'cursorFeedback.drafts';
+// 超过这个时间的草稿不再带到新请求（毫秒）
+const MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * 超时请求的草稿，按项目目录保存在工作区存储中，AI 重新请求反馈时恢复（窗口重载后仍然保留）
+ */
+export class DraftStore {
+  constructor(private readonly _storage: vscode.Memento) {}
+
+  /**
+   * 保存项目的草稿（同一项目只保留最新的一份）
+   * endedRequestTimestamp 是结束的请求的创建时间（Server 时钟），用于判断哪些请求可以恢复草稿
+   */
+  public async save(projectDir: string, draft: FeedbackDraft, endedRequestTimestamp: number): Promise<void> {
+    const drafts = this._getAll();
+    drafts[normalize(projectDir)] = { draft, endedRequestTimestamp, savedAt: Date.now() };
+    await this._storage.update(STORAGE_KEY, drafts);
+  }
+
+  /**
+   * 取出项目的草稿（只用于比结束的请求更晚创建的请求，两者都使用 Server 时钟），取出后删除
+   */
+  public take(projectDir: string, requestTimestamp: number): FeedbackDraft | null {
+    const drafts = this._getAll();
+    const key = normalize(projectDir);
+    const saved = drafts[key];
+    if (!saved || requestTimestamp <= saved.endedRequestTimestamp) {
+      return null;
+    }
+    delete drafts[key];
+    this._storage.update(STORAGE_KEY, drafts);
+    return Date.now() - saved.savedAt > MAX_AGE ? null : saved.draft;
+  }
+
+  private _getAll(): Record<string, SavedDraft> {
+    return { ...this._storage.get<Record<string, SavedDraft>>(STORAGE_KEY, {}) };
+  }
+}
+
+function normalize(p: string): string {
+  return p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
+}
@@ -0,0 +1,45 @@
+/**
+ * 编辑器上下文附件：用户从编辑器一键附加的选中代码 / 诊断信息
+ * （由扩展收集，Server 格式化后返回给 AI）
+ */
+
+export interface SelectionContext {
+  kind: 'selection';
+  path: string;
+  startLine: number; // 1-based
+  endLine: number;
+  languageId: string;
+  text: string;
+}
+
+export interface DiagnosticsContext {
+  kind: 'diagnostics';
+  path: string;
+  diagnostics: Array<{
+    severity: 'error' | 'warning' | 'info' | 'hint';
+    line: number; // 1-based
+    column: number;
+    message: string;
+    source?: string;
+    code?: string;
+  }>;
+}
+
+export type EditorContextItem = SelectionContext | DiagnosticsContext;
+
+/**
+ * 格式化为返回给 AI 的文本
+ */
+export function formatContextItem(item: EditorContextItem): string {
+  if (item.kind === 'selection') {
+    // 选中内容本身包含代码块标记时加长围栏
+    const fence = item.text.includes('```') ? '````' : '```';
+    return `[Selection] ${item.path}:${item.startLine}-${item.endLine}\n${fence}${item.languageId}\n${item.text}\n${fence}`;
+  }
+
+  const lines = item.diagnostics.map(d => {
+    const origin = [d.source, d.code].filter(Boolean).join(' ');
+    return `- ${d.severity} L${d.line}:${d.column}${origin ? ` [${origin}]` : ''} ${d.message}`;
+  });
+  return `[Diagnostics] ${item.path} (${item.diagnostics.length})\n${lines.join('\n') || '(no problems)'}`;
+}
@@ -2,7 +2,20 @@ import * as vscode from 'vscode';
 import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { loadMessages, getLanguage, I18nMessages } from './i18n';
+import { FeedbackHistory } from './history';
+import { DraftStore, FeedbackDraft, RequestEndReason, shouldSaveDraft } from './drafts';
+import { FormField } from './form-fields';
+import { EditorContextItem } from './editor-context';
+import { FileChange, OriginalContentProvider, getOriginalContent, prepareChanges } from './diff-review';
+import { ServerEntry, TOKEN_HEADER, getWorkspaceSocketPath, readServerEntries } from './server-registry';
+import { WaitingNotifier } from './notifier';
+import { FeedbackStatusBar } from './status-bar';
+import { expandTemplateVariables, getTemplates } from './templates';
+import { findAutoReplyRule, getAutoReplySettings, getRuleLabel } from './auto-reply';
+import { Session, groupSessions, parseSessionJson, toJson, toMarkdown } from './session-export';
 
 let feedbackViewProvider: FeedbackViewProvider | null = null;
 let pollingInterval: NodeJS.Timeout | null = null;
@@ -11,12 +24,28 @@ export function activate(context: vscode.ExtensionContext) {
   console.log('Cursor Feedback extension is now active!');
 
   // 注册侧边栏 WebView（端口从 61927 开始自动扫描）
-  feedbackViewProvider = new FeedbackViewProvider(context.extensionUri, 61927);
+  // 注册"修改前"内容的虚拟文档，用于原生 diff 编辑器
+  const originalContentProvider = new OriginalContentProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      OriginalContentProvider.scheme,
+      originalContentProvider
+    )
+  );
+
+  feedbackViewProvider = new FeedbackViewProvider(
+    context.extensionUri,
+    61927,
+    new FeedbackHistory(context.workspaceState),
+    new DraftStore(context.workspaceState),
+    originalContentProvider
+  );
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(
       'cursorFeedback.feedbackView',
       feedbackViewProvider
-    )
+    ),
+    feedbackViewProvider
   );
 
   // 注册命令：显示反馈面板
@@ -46,6 +75,24 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // 注册命令：导出 / 导入会话记录
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursorFeedback.exportSession', () => feedbackViewProvider?.exportSession()),
+    vscode.commands.registerCommand('cursorFeedback.importSession', () => feedbackViewProvider?.importSession())
+  );
+
+  // 注册命令：开启/关闭自动回复
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursorFeedback.toggleAutoReply', async () => {
+      const config = vscode.workspace.getConfiguration('cursorFeedback.autoReply');
+      const enabled = !config.get<boolean>('enabled', false);
+      await config.update('enabled', enabled, vscode.ConfigurationTarget.Global);
+      if (feedbackViewProvider) {
+        vscode.window.showInformationMessage(feedbackViewProvider.getMessage(enabled ? 'autoReplyOn' : 'autoReplyOff'));
+      }
+    })
+  );
+
   // 自动开始轮询
   setTimeout(() => {
     feedbackViewProvider?.startPolling();
@@ -67,8 +114,27 @@ interface FeedbackRequest {
   projectDir: string;
   timeout: number;
   timestamp: number;
+  kind?: 'feedback' | 'form' | 'approval';
+  options?: string[];
+  multiSelect?: boolean;
+  fields?: FormField[];
+  actionType?: string;
+  details?: string;
+  changes?: Array<{ path: string; diff?: string }>;
+  inlineFiles?: boolean;
+  imageLimits?: { maxDimension: number; maxImageBytes: number };
 }
 
+/**
+ * Server 的连接地址：数字为 127.0.0.1 上的 TCP 端口，字符串为 Unix socket / 命名管道路径，
+ * 或 "relay:<pid>"（通过远程开发中转访问的 Server）
+ */
+type Endpoint = number | string;
+const RELAY_PREFIX = 'relay:';
+
+// 用户正在输入时向 Server 发送心跳的最小间隔（毫秒）
+const HEARTBEAT_INTERVAL = 10000;
+
 /**
  * 获取当前工作区路径列表
  */
@@ -116,6 +182,15 @@ function isPathInWorkspace(targetPath: string): boolean {
   return false;
 }
 
+/**
+ * 检查 Server 是否属于当前工作区（尚未被 AI 调用过的 Server 没有所属工作区，视为可用）
+ */
+function isMyServer(ownerWorkspace?: string | null): boolean {
+  const normalize = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
+  const serverOwner = ownerWorkspace ? normalize(ownerWorkspace) : '';
+  return !serverOwner || serverOwner === normalize(getWorkspacePaths()[0] || '');
+}
+
 /**
  * 侧边栏 WebView Provider
  */
@@ -124,16 +199,41 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _pollingInterval: NodeJS.Timeout | null = null;
   private _currentRequest: FeedbackRequest | null = null;
+  // 所有待处理的请求（requestId -> 请求及其所在 Server），支持同时回复多个请求
+  private _openRequests: Map<string, { request: FeedbackRequest; endpoint: Endpoint }> = new Map();
+  // 已解析的代码变更（requestId -> 文件 diff）
+  private _preparedChanges: Map<string, FileChange[]> = new Map();
   private _basePort: number;
-  private _activePort: number | null = null;
+  private _activeEndpoint: Endpoint | null = null;
   private _portScanRange = 20; // 扫描端口范围
   private _seenRequestIds: Set<string> = new Set(); // 已处理过的请求 ID
+  // 事件推送订阅（Server -> 连接及该 Server 上的请求），订阅后不再需要每秒轮询
+  private _subscriptions: Map<Endpoint, { req: http.ClientRequest; requests: FeedbackRequest[] }> = new Map();
+  private _noEventEndpoints: Set<Endpoint> = new Set(); // 不支持事件推送的旧版本 Server
+  private _pollTick = 0;
+  // 登记文件中的 Server 及其访问 token（最多每秒读取一次）
+  private _registry: ServerEntry[] = [];
+  private _tokens: Map<number, string> = new Map();
+  private _registryLoadedAt = 0;
+  // 用户正在输入：各请求的最新草稿（超时后保存给下一个请求）和最近一次发送心跳的时间
+  private _drafts: Map<string, FeedbackDraft> = new Map();
+  private _lastHeartbeat: Map<string, number> = new Map();
+  // 自动回复：本次对话收到的请求轮数、连续自动回复的轮数（手动回复后清零），以及等待中的自动回复
+  private _round = 0;
+  private _autoReplyCount = 0;
+  private _autoReplyTimers: Map<string, NodeJS.Timeout> = new Map();
+  // 当前会话（窗口打开或结束对话后开始新的会话），记录在历史中用于导出
+  private _sessionId: string = crypto.randomUUID();
   private _i18n: I18nMessages;
+  // 系统通知、提示音和重复提醒
+  private readonly _notifier: WaitingNotifier;
+  // 状态栏：连接状态和剩余时间
+  private readonly _statusBar: FeedbackStatusBar;
   private _debugInfo: {
     portRange: string;
     workspacePath: string;
-    connectedPorts: number[]; // 所有窗口使用的端口
-    activePort: number | null; // 当前项目监听的端口
+    connectedPorts: Endpoint[]; // 所有窗口使用的端口 / socket
+    activePort: Endpoint | null; // 当前项目监听的端口 / socket
     lastStatus: string;
   } = {
     portRange: '',
@@ -145,12 +245,23 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    port: number
+    port: number,
+    private readonly _history: FeedbackHistory,
+    private readonly _draftStore: DraftStore,
+    private readonly _originalContentProvider: OriginalContentProvider
   ) {
     this._basePort = port;
-    this._debugInfo.portRange = `${port}-${port + this._portScanRange - 1}`;
+    this._debugInfo.portRange = `registry + ${port}-${port + this._portScanRange - 1}`;
     this._i18n = loadMessages(this._extensionUri.fsPath);
     this._debugInfo.lastStatus = this._i18n.checkingConnection;
+    this._notifier = new WaitingNotifier(() => this._i18n, () => !!this._view?.visible);
+    this._statusBar = new FeedbackStatusBar(() => this._i18n);
+  }
+
+  public dispose() {
+    this._notifier.dispose();
+    this._statusBar.dispose();
+    this._autoReplyTimers.forEach(timer => clearTimeout(timer));
   }
 
   /**
@@ -180,28 +291,70 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
         case 'submitFeedback':
           await this._handleFeedbackSubmit(data.payload);
           break;
+        case 'cancelRequest':
+          await this._handleCancelRequest(data.payload.requestId, data.payload.reason);
+          break;
+        case 'typing':
+          this._handleTyping(data.payload.requestId, data.payload.draft);
+          break;
+        case 'imagesRejected':
+          this._showRejectedImages(data.payload.images);
+          break;
         case 'ready':
           console.log('Feedback WebView is ready');
           // WebView 准备就绪后，检查是否有待处理的请求
+          this._updateTemplates();
+          this._updateRequestList();
           if (this._currentRequest) {
             this._showFeedbackRequest(this._currentRequest);
           }
+          this._updateHistory();
+          break;
+        case 'selectRequest':
+          this._handleSelectRequest(data.payload.requestId);
+          break;
+        case 'openDiff':
+          await this._handleOpenDiff(data.payload.requestId, data.payload.index);
           break;
         case 'checkServer':
           await this._checkServerHealth();
           break;
         case 'selectPath':
-          await this._handleSelectPath();
+          await this._handleSelectPath(data.payload?.target);
+          break;
+        case 'attachSelection':
+          this._handleAttachSelection();
+          break;
+        case 'attachActiveFile':
+          this._handleAttachActiveFile();
+          break;
+        case 'attachDiagnostics':
+          this._handleAttachDiagnostics();
           break;
         case 'switchLanguage':
           await this._handleSwitchLanguage();
           break;
+        case 'clearHistory':
+          await this._handleClearHistory();
+          break;
+        case 'exportSession':
+          await this.exportSession();
+          break;
+      }
+    });
+
+    // 模板设置变化时更新 WebView
+    const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('cursorFeedback.templates')) {
+        this._updateTemplates();
       }
     });
+    webviewView.onDidDispose(() => configListener.dispose());
 
     // 当 view 变为可见时，检查当前请求
     webviewView.onDidChangeVisibility(() => {
       if (webviewView.visible && this._currentRequest) {
+        this._updateRequestList();
         this._showFeedbackRequest(this._currentRequest);
       }
     });
@@ -233,90 +386,136 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
       clearInterval(this._pollingInterval);
       this._pollingInterval = null;
     }
+    for (const endpoint of Array.from(this._subscriptions.keys())) {
+      this._unsubscribe(endpoint);
+    }
+  }
+
+  /**
+   * 获取需要检查的 Server
+   * 登记文件中属于当前工作区（或尚未被使用）的 Server 每次都检查；
+   * 不写登记文件的旧版本 Server 通过扫描固定端口范围发现，scanAll 为 false 时每 5 次才扫描一次。
+   * cursorFeedback.transport 为 tcp / socket 时只使用对应的通信方式
+   */
+  private async _getCandidateEndpoints(scanAll = false): Promise<Endpoint[]> {
+    const transport = vscode.workspace.getConfiguration('cursorFeedback').get<string>('transport') || 'auto';
+    const registry = this._loadRegistry(true);
+    const mine = registry.filter(entry => isMyServer(entry.ownerWorkspace));
+    const endpoints = new Set<Endpoint>();
+
+    if (transport !== 'tcp') {
+      for (const entry of mine) {
+        if (entry.socketPath) {
+          endpoints.add(entry.socketPath);
+        }
+      }
+      // 工作区对应的 socket 由路径直接计算，不依赖登记文件
+      for (const workspacePath of getWorkspacePaths()) {
+        const socketPath = getWorkspaceSocketPath(workspacePath);
+        if (fs.existsSync(socketPath)) {
+          endpoints.add(socketPath);
+        }
+      }
+    }
+
+    if (transport !== 'socket') {
+      for (const entry of mine) {
+        if (entry.port !== null) {
+          endpoints.add(entry.port);
+        }
+      }
+      if (scanAll || registry.length === 0 || this._pollTick % 5 === 0) {
+        const registered = new Set(registry.map(entry => entry.port));
+        for (let i = 0; i < this._portScanRange; i++) {
+          if (!registered.has(this._basePort + i)) {
+            endpoints.add(this._basePort + i);
+          }
+        }
+      }
+    }
+
+    // 配置了远程开发中转时，同时使用中转上登记的 Server
+    if (this._getRelay()) {
+      try {
+        const response = JSON.parse(await this._httpGet(RELAY_PREFIX, '/api/relay/servers'));
+        for (const server of response.servers || []) {
+          if (isMyServer(server.ownerWorkspace)) {
+            endpoints.add(`${RELAY_PREFIX}${server.pid}`);
+          }
+        }
+      } catch {
+        // 中转未运行或端口未转发
+      }
+    }
+
+    return Array.from(endpoints);
   }
 
   /**
    * 轮询检查是否有新的反馈请求
-   * 优化：如果已有活跃端口，先尝试该端口；失败则扫描所有端口
+   * 优化：如果已有活跃端口，先尝试该端口；失败则检查登记的 Server 和扫描端口
+   * 已订阅事件推送时，只每 5 秒检查一次用于发现新的 Server
    */
   private async _pollForFeedbackRequest() {
+    this._pollTick++;
+    if (this._subscriptions.size > 0 && this._pollTick % 5 !== 0) {
+      return;
+    }
+
     try {
       // 更新工作区路径
       const workspacePaths = getWorkspacePaths();
       this._debugInfo.workspacePath = workspacePaths.length > 0 ? workspacePaths[0] : '(无工作区)';
-      const currentWorkspace = workspacePaths[0] || '';
-      const normalize = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
-      const normalizedCurrentWorkspace = normalize(currentWorkspace);
 
       // 如果有活跃端口，先尝试只轮询该端口
-      if (this._activePort) {
-        const result = await this._checkPortForRequest(this._activePort);
+      if (this._activeEndpoint) {
+        const result = await this._checkEndpointForRequest(this._activeEndpoint);
         
         // 检查是否仍然是我们的 Server
-        if (result.connected) {
-          const serverOwner = result.ownerWorkspace ? normalize(result.ownerWorkspace) : '';
-          const isMyServer = !serverOwner || serverOwner === normalizedCurrentWorkspace;
-          
-          if (isMyServer) {
-            // 端口仍然有效，保持使用
-            this._debugInfo.connectedPorts = [this._activePort];
-            this._debugInfo.activePort = this._activePort;
-            
-            if (result.request && !this._seenRequestIds.has(result.request.id)) {
-              this._debugInfo.lastStatus = `监听端口 ${this._activePort}`;
-              this._handleNewRequest(result.request, this._activePort);
-              this._updateDebugInfo();
-              return;
-            }
-            
-            // 端口有效但无新请求，继续保持连接
-            this._debugInfo.lastStatus = `监听端口 ${this._activePort}`;
-            this._updateDebugInfo();
-            return;
-          }
+        if (result.connected && isMyServer(result.ownerWorkspace)) {
+          // 端口仍然有效，保持使用
+          this._debugInfo.connectedPorts = [this._activeEndpoint];
+          this._debugInfo.activePort = this._activeEndpoint;
+          this._debugInfo.lastStatus = `监听端口 ${this._activeEndpoint}`;
+          this._syncRequests(this._activeEndpoint, result.requests, result.ended);
+          this._subscribe(this._activeEndpoint);
+          this._updateDebugInfo();
+          return;
         }
         
         // 活跃端口失效（连接失败或工作区不匹配），重置并扫描所有端口
-        this._activePort = null;
+        this._syncRequests(this._activeEndpoint, []);
+        this._activeEndpoint = null;
         this._debugInfo.activePort = null;
       }
 
-      // 扫描所有端口
-      const ports = [];
-      for (let i = 0; i < this._portScanRange; i++) {
-        ports.push(this._basePort + i);
-      }
-
-      // 并行检查所有端口
-      const results = await Promise.all(ports.map(port => this._checkPortForRequest(port)));
+      // 并行检查登记的 Server 和扫描的端口
+      const endpoints = await this._getCandidateEndpoints();
+      const results = await Promise.all(endpoints.map(endpoint => this._checkEndpointForRequest(endpoint)));
       
       // 更新已连接的端口列表
-      this._debugInfo.connectedPorts = results.filter(r => r.connected).map(r => r.port);
-      
-      // 找出属于当前工作区的请求
-      const myRequests = results.filter(r => {
-        if (!r.request || this._seenRequestIds.has(r.request.id)) {
-          return false;
+      this._debugInfo.connectedPorts = results.filter(r => r.connected).map(r => r.endpoint);
+      for (const r of results) {
+        if (!r.connected) {
+          this._noEventEndpoints.delete(r.endpoint);
         }
-        const serverOwner = r.ownerWorkspace ? normalize(r.ownerWorkspace) : '';
-        return !serverOwner || serverOwner === normalizedCurrentWorkspace;
-      }).sort((a, b) => b.request!.timestamp - a.request!.timestamp);
+      }
       
-      // 处理最新的请求
-      if (myRequests.length > 0) {
-        const newest = myRequests[0];
-        this._activePort = newest.port;
-        this._debugInfo.activePort = newest.port;
-        this._debugInfo.lastStatus = `找到请求 (端口 ${newest.port})`;
-        this._handleNewRequest(newest.request!, newest.port);
-        this._updateDebugInfo();
-        return;
+      // 同步属于当前工作区的请求，并订阅这些 Server 的事件推送
+      const myResults = results.filter(r => r.connected && isMyServer(r.ownerWorkspace));
+      for (const r of myResults) {
+        this._syncRequests(r.endpoint, r.requests, r.ended);
+        this._subscribe(r.endpoint);
       }
 
-      // 没有新请求，检查是否有当前请求
-      if (this._currentRequest && this._activePort) {
-        this._debugInfo.activePort = this._activePort;
-        this._debugInfo.lastStatus = `监听端口 ${this._activePort}`;
+      // 使用最新请求所在的端口作为活跃端口
+      const newest = myResults
+        .filter(r => r.requests.length > 0)
+        .sort((a, b) => b.requests[b.requests.length - 1].timestamp - a.requests[a.requests.length - 1].timestamp)[0];
+      if (newest) {
+        this._activeEndpoint = newest.endpoint;
+        this._debugInfo.activePort = newest.endpoint;
+        this._debugInfo.lastStatus = `找到请求 (端口 ${newest.endpoint})`;
         this._updateDebugInfo();
         return;
       }
@@ -337,61 +536,263 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * 检查指定端口是否有反馈请求
+   * 检查指定端口上的反馈请求
    */
-  private async _checkPortForRequest(port: number): Promise<{
+  private async _checkEndpointForRequest(endpoint: Endpoint): Promise<{
     connected: boolean;
-    request: FeedbackRequest | null;
-    port: number;
+    requests: FeedbackRequest[];
+    endpoint: Endpoint;
     mismatch?: boolean; // 是否有请求但路径不匹配
     ownerWorkspace?: string | null; // Server 的所属工作区
     startTime?: number; // Server 的启动时间
+    ended?: Record<string, RequestEndReason>; // 最近结束的请求及结束原因
   }> {
     try {
       // 带上工作区路径用于匹配
       const workspacePaths = getWorkspacePaths();
       const workspacePath = workspacePaths.length > 0 ? workspacePaths[0] : '';
-      const url = `http://127.0.0.1:${port}/api/feedback/current?workspace=${encodeURIComponent(workspacePath)}`;
-      const response = await this._httpGet(url);
-      const parsed = JSON.parse(response);
-      
-      // 兼容新旧两种响应格式
-      // 新格式: { request, ownerWorkspace, startTime }
+      const query = `?workspace=${encodeURIComponent(workspacePath)}`;
+
+      // 兼容三种响应格式
+      // 多请求格式（/api/feedback/pending）: { requests, ended, ownerWorkspace, startTime }
+      // 单请求格式（/api/feedback/current）: { request, ownerWorkspace, startTime }
       // 旧格式: FeedbackRequest | null
-      let request: FeedbackRequest | null;
+      let requests: FeedbackRequest[];
       let ownerWorkspace: string | null = null;
       let startTime: number = 0;
-      
-      if (parsed && typeof parsed === 'object' && 'startTime' in parsed) {
-        // 新格式
-        request = parsed.request;
-        ownerWorkspace = parsed.ownerWorkspace;
-        startTime = parsed.startTime;
+      let ended: Record<string, RequestEndReason> | undefined;
+
+      const pending = await this._tryParseJson(
+        await this._httpGet(endpoint, `/api/feedback/pending${query}`)
+      );
+      if (pending && Array.isArray(pending.requests)) {
+        requests = pending.requests;
+        ended = pending.ended;
+        ownerWorkspace = pending.ownerWorkspace;
+        startTime = pending.startTime;
       } else {
-        // 旧格式（兼容 npm 上的旧版本）
-        request = parsed as FeedbackRequest | null;
+        // 不支持 /api/feedback/pending 的旧版本 Server
+        const response = await this._httpGet(endpoint, `/api/feedback/current${query}`);
+        const parsed = JSON.parse(response);
+        let request: FeedbackRequest | null;
+        if (parsed && typeof parsed === 'object' && 'startTime' in parsed) {
+          request = parsed.request;
+          ownerWorkspace = parsed.ownerWorkspace;
+          startTime = parsed.startTime;
+        } else {
+          // 旧格式（兼容 npm 上的旧版本）
+          request = parsed as FeedbackRequest | null;
+        }
+        requests = request ? [request] : [];
       }
       
-      // 检查请求是否属于当前工作区
-      if (request) {
-        const isMatch = isPathInWorkspace(request.projectDir);
-        
-        if (!isMatch) {
-          // 请求不属于当前工作区，返回特殊标记
-          return { connected: true, request: null, port, mismatch: true, ownerWorkspace, startTime };
+      // 只保留属于当前工作区的请求
+      const matched = requests.filter(r => isPathInWorkspace(r.projectDir));
+      const mismatch = matched.length < requests.length;
+      
+      return { connected: true, requests: matched, endpoint, mismatch, ownerWorkspace, startTime, ended };
+    } catch {
+      return { connected: false, requests: [], endpoint };
+    }
+  }
+
+  /**
+   * 订阅 Server 的事件推送（SSE），收到请求创建/完成/取消/超时事件时立即同步
+   * 旧版本 Server 不支持时继续使用轮询
+   */
+  private _subscribe(endpoint: Endpoint) {
+    if (this._subscriptions.has(endpoint) || this._noEventEndpoints.has(endpoint)) {
+      return;
+    }
+
+    const req = http.get(this._requestOptions(endpoint, '/api/events'), (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        if (res.statusCode === 401) {
+          // token 已失效（Server 重启），下次重新读取
+          this._forgetToken(endpoint);
+        } else {
+          this._noEventEndpoints.add(endpoint);
         }
+        this._unsubscribe(endpoint);
+        return;
       }
-      
-      return { connected: true, request, port, ownerWorkspace, startTime };
+
+      res.setEncoding('utf8');
+      let buffer = '';
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index;
+        while ((index = buffer.indexOf('\n\n')) >= 0) {
+          const block = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          let event = 'message';
+          let data = '';
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event: ')) {
+              event = line.slice(7);
+            } else if (line.startsWith('data: ')) {
+              data += line.slice(6);
+            }
+          }
+          const parsed = data ? this._tryParseJson(data) : null;
+          if (parsed) {
+            this._handleServerEvent(endpoint, event, parsed);
+          }
+        }
+      });
+      res.on('close', () => this._unsubscribe(endpoint));
+    });
+    req.on('error', () => this._unsubscribe(endpoint));
+    // Server 每 15 秒发送一次心跳，超时说明连接已断开
+    req.setTimeout(45000, () => req.destroy());
+
+    this._subscriptions.set(endpoint, { req, requests: [] });
+  }
+
+  /**
+   * 取消事件订阅（连接断开后恢复轮询）
+   */
+  private _unsubscribe(endpoint: Endpoint) {
+    const subscription = this._subscriptions.get(endpoint);
+    if (subscription) {
+      this._subscriptions.delete(endpoint);
+      subscription.req.destroy();
+    }
+  }
+
+  /**
+   * 处理 Server 推送的事件
+   */
+  private _handleServerEvent(endpoint: Endpoint, event: string, data: any) {
+    const subscription = this._subscriptions.get(endpoint);
+    if (!subscription) {
+      return;
+    }
+
+    const ended: Record<string, RequestEndReason> = {};
+    switch (event) {
+      case 'snapshot':
+      case 'request-created':
+        // Server 已被其他工作区占用，不再订阅
+        if (!isMyServer(data.ownerWorkspace)) {
+          this._unsubscribe(endpoint);
+          this._syncRequests(endpoint, []);
+          return;
+        }
+        if (event === 'snapshot') {
+          subscription.requests = data.requests || [];
+        } else {
+          subscription.requests.push(data.request);
+        }
+        break;
+      case 'request-extended':
+        // 用户正在输入，Server 延长了等待时间
+        this._applyTimeout(data.requestId, data.timeout);
+        return;
+      case 'request-timed-out':
+        subscription.requests = subscription.requests.filter(r => r.id !== data.requestId);
+        ended[data.requestId] = 'timeout';
+        break;
+      case 'request-completed':
+      case 'request-cancelled':
+        subscription.requests = subscription.requests.filter(r => r.id !== data.requestId);
+        ended[data.requestId] = event === 'request-completed' ? 'submitted' : data.reason;
+        break;
+      default:
+        return;
+    }
+
+    this._syncRequests(endpoint, subscription.requests.filter(r => isPathInWorkspace(r.projectDir)), ended);
+    if (this._openRequests.size > 0) {
+      this._activeEndpoint = this._currentRequest
+        ? this._openRequests.get(this._currentRequest.id)?.endpoint ?? endpoint
+        : endpoint;
+      this._debugInfo.activePort = this._activeEndpoint;
+    }
+    this._debugInfo.lastStatus = `已订阅端口 ${endpoint}`;
+    this._updateDebugInfo();
+  }
+
+  /**
+   * 解析 JSON，失败时返回 null（例如旧版 Server 返回 404 文本）
+   */
+  private _tryParseJson(text: string): any {
+    try {
+      return JSON.parse(text);
     } catch {
-      return { connected: false, request: null, port };
+      return null;
     }
   }
 
+  /**
+   * 将某个端口上的请求列表同步到本地：新增新请求，移除已结束（已回复/超时）的请求
+   * ended 是 Server 告知的结束原因，超时或 AI 端取消的请求保存未提交的输入
+   */
+  private _syncRequests(endpoint: Endpoint, requests: FeedbackRequest[], ended: Record<string, RequestEndReason> = {}) {
+    const serverIds = new Set(requests.map(r => r.id));
+    let changed = false;
+
+    for (const [id, entry] of this._openRequests) {
+      if (entry.endpoint === endpoint && !serverIds.has(id)) {
+        // 超时或 AI 端取消：保存未提交的输入（在其他地方回复的请求不保存，避免把已回复的内容带到下一个请求）
+        if (shouldSaveDraft(ended[id])) {
+          this._saveDraft(id);
+        }
+        this._openRequests.delete(id);
+        this._preparedChanges.delete(id);
+        this._drafts.delete(id);
+        this._lastHeartbeat.delete(id);
+        this._cancelAutoReply(id);
+        changed = true;
+      }
+    }
+
+    for (const request of requests) {
+      if (!this._openRequests.has(request.id)) {
+        this._openRequests.set(request.id, { request, endpoint });
+        this._handleNewRequest(request, endpoint);
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    // 当前请求已结束时，切换到剩余的最新请求
+    if (this._currentRequest && !this._openRequests.has(this._currentRequest.id)) {
+      this._currentRequest = null;
+    }
+    if (!this._currentRequest) {
+      this._currentRequest = this._getNewestOpenRequest();
+    }
+
+    this._updateRequestList();
+    if (this._currentRequest) {
+      this._showFeedbackRequest(this._currentRequest);
+    } else {
+      this._showWaitingState();
+    }
+  }
+
+  /**
+   * 获取最新的待处理请求
+   */
+  private _getNewestOpenRequest(): FeedbackRequest | null {
+    let newest: FeedbackRequest | null = null;
+    for (const { request } of this._openRequests.values()) {
+      if (!newest || request.timestamp > newest.timestamp) {
+        newest = request;
+      }
+    }
+    return newest;
+  }
+
   /**
    * 处理新的反馈请求
    */
-  private _handleNewRequest(request: FeedbackRequest, port: number) {
+  private _handleNewRequest(request: FeedbackRequest, endpoint: Endpoint) {
     // 如果已经处理过这个请求，跳过
     if (this._seenRequestIds.has(request.id)) {
       return;
@@ -401,11 +802,17 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     const requestAge = Date.now() - request.timestamp;
     const isFreshRequest = requestAge < 10000; // 10秒内
     
-    console.log(`Feedback request on port ${port}:`, request.id, 
+    console.log(`Feedback request on endpoint ${endpoint}:`, request.id, 
       `age: ${requestAge}ms, isFresh: ${isFreshRequest}`);
     
     // 标记为已见过
     this._seenRequestIds.add(request.id);
+
+    // 同一项目上一个请求结束时未提交的输入（每个请求只取一次，之后重新显示时保留）
+    const draft = this._draftStore.take(request.projectDir, request.timestamp);
+    if (draft) {
+      this._drafts.set(request.id, draft);
+    }
     
     // 清理旧的请求 ID（保留最近 100 个）
     if (this._seenRequestIds.size > 100) {
@@ -413,18 +820,30 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
       this._seenRequestIds = new Set(ids.slice(-50));
     }
 
-    if (!this._currentRequest || request.id !== this._currentRequest.id) {
+    // 只对新鲜请求切换、自动聚焦和通知
+    if (isFreshRequest) {
+      this._round++;
       this._currentRequest = request;
-      this._activePort = port;
-      
-      // 显示请求内容
-      this._showFeedbackRequest(request);
-      
-      // 只对新鲜请求自动聚焦和通知
-      if (isFreshRequest) {
-        vscode.commands.executeCommand('cursorFeedback.feedbackView.focus');
-        vscode.window.showInformationMessage(this._i18n.aiWaitingFeedback);
+      this._activeEndpoint = endpoint;
+      // 立即自动回复的请求不打扰用户
+      if (this._scheduleAutoReply(request) === 0) {
+        return;
       }
+      vscode.commands.executeCommand('cursorFeedback.feedbackView.focus');
+      vscode.window.showInformationMessage(this._i18n.aiWaitingFeedback);
+      this._notifier.requestOpened(request);
+    }
+  }
+
+  /**
+   * 处理切换请求（WebView 中点击请求标签）
+   */
+  private _handleSelectRequest(requestId: string) {
+    const entry = this._openRequests.get(requestId);
+    if (entry) {
+      this._currentRequest = entry.request;
+      this._updateRequestList();
+      this._showFeedbackRequest(entry.request);
     }
   }
 
@@ -432,15 +851,16 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
    * 检查服务器健康状态
    */
   private async _checkServerHealth() {
-    // 扫描端口查找可用的服务器
-    for (let i = 0; i < this._portScanRange; i++) {
-      const port = this._basePort + i;
+    // 优先使用当前 Server 和登记的 Server，找不到时扫描端口
+    const candidates = await this._getCandidateEndpoints(true);
+    const endpoints = this._activeEndpoint ? [this._activeEndpoint, ...candidates] : candidates;
+    for (const endpoint of Array.from(new Set(endpoints))) {
       try {
-        const response = await this._httpGet(`http://127.0.0.1:${port}/api/health`);
+        const response = await this._httpGet(endpoint, '/api/health');
         const health = JSON.parse(response);
         this._view?.webview.postMessage({
           type: 'serverStatus',
-          payload: { connected: true, port, ...health }
+          payload: { connected: true, endpoint, ...health }
         });
         return;
       } catch {
@@ -467,7 +887,85 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
           summary: request.summary,
           projectDir: request.projectDir,
           timeout: request.timeout,
-          timestamp: request.timestamp
+          timestamp: request.timestamp,
+          kind: request.kind || 'feedback',
+          options: request.options || [],
+          multiSelect: request.multiSelect || false,
+          fields: request.fields || [],
+          actionType: request.actionType || '',
+          details: request.details || '',
+          changes: this._preparedChanges.get(request.id) || null,
+          hasChanges: !!request.changes?.length,
+          inlineFiles: request.inlineFiles || false,
+          imageLimits: request.imageLimits || null,
+          // 上一个请求结束时未提交的输入，或窗口重载前输入的内容
+          draft: this._drafts.get(request.id) || null
+        }
+      });
+
+      if (request.changes?.length && !this._preparedChanges.has(request.id)) {
+        this._prepareChanges(request);
+      }
+    }
+  }
+
+  /**
+   * 解析请求中的代码变更，完成后推送到 WebView
+   */
+  private async _prepareChanges(request: FeedbackRequest) {
+    try {
+      const changes = await prepareChanges(request.changes || [], request.projectDir);
+      this._preparedChanges.set(request.id, changes);
+      this._view?.webview.postMessage({
+        type: 'showChanges',
+        payload: { requestId: request.id, changes }
+      });
+    } catch (error) {
+      console.error('Failed to prepare changes:', error);
+    }
+  }
+
+  /**
+   * 在 VS Code 原生 diff 编辑器中打开文件变更
+   */
+  private async _handleOpenDiff(requestId: string, index: number) {
+    const change = this._preparedChanges.get(requestId)?.[index];
+    if (!change) {
+      return;
+    }
+    const original = await getOriginalContent(change);
+    const originalUri = this._originalContentProvider.register(change.absolutePath, original);
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      originalUri,
+      vscode.Uri.file(change.absolutePath),
+      `${path.basename(change.absolutePath)} (${this._i18n.reviewChanges})`
+    );
+  }
+
+  /**
+   * 更新待处理请求列表到 WebView（多个请求时显示为标签）
+   */
+  private _updateRequestList() {
+    this._notifier.sync(Array.from(this._openRequests.keys()));
+    this._updateStatusBar();
+    if (this._view) {
+      const requests = Array.from(this._openRequests.values())
+        .map(({ request }) => request)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      // 侧边栏图标上显示等待中的请求数
+      this._view.badge = requests.length > 0
+        ? { value: requests.length, tooltip: this._i18n.waitingBadge.replace('{count}', String(requests.length)) }
+        : undefined;
+      this._view.webview.postMessage({
+        type: 'updateRequests',
+        payload: {
+          requests: requests.map(r => ({
+            requestId: r.id,
+            summary: r.summary,
+            timestamp: r.timestamp
+          })),
+          currentRequestId: this._currentRequest?.id || null
         }
       });
     }
@@ -488,6 +986,7 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
    * 更新调试信息到 WebView
    */
   private _updateDebugInfo() {
+    this._updateStatusBar();
     if (this._view) {
       this._view.webview.postMessage({
         type: 'updateDebugInfo',
@@ -496,38 +995,218 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 更新状态栏（已订阅事件推送或找到任意 Server 时视为已连接）
+   */
+  private _updateStatusBar() {
+    const connected = this._subscriptions.size > 0 || this._debugInfo.connectedPorts.length > 0;
+    this._statusBar.update({
+      connected,
+      endpoint: this._debugInfo.activePort ?? this._subscriptions.keys().next().value ?? this._debugInfo.connectedPorts[0] ?? null,
+      request: this._currentRequest && this._openRequests.has(this._currentRequest.id) ? this._currentRequest : null,
+      waitingCount: this._openRequests.size
+    });
+  }
+
+  /**
+   * 更新回复模板到 WebView
+   */
+  private _updateTemplates() {
+    this._view?.webview.postMessage({
+      type: 'updateTemplates',
+      payload: { templates: getTemplates() }
+    });
+  }
+
+  /**
+   * 更新历史记录到 WebView
+   */
+  private _updateHistory() {
+    if (this._view) {
+      this._view.webview.postMessage({
+        type: 'updateHistory',
+        payload: { entries: this._history.getAll() }
+      });
+    }
+  }
+
+  /**
+   * 导出会话记录：选择会话和格式（Markdown 内嵌图片 / Markdown 图片保存到文件夹 / JSON）后保存到文件
+   */
+  public async exportSession() {
+    const sessions = groupSessions(this._history.getAll());
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage(this._i18n.noHistoryToExport);
+      return;
+    }
+
+    const sessionItems = sessions.map(session => {
+      const first = session.entries[0];
+      const label = session.id === this._sessionId ? this._i18n.currentSession
+        : session.id ? new Date(first.requestTimestamp).toLocaleString() : this._i18n.earlierHistory;
+      return {
+        label,
+        description: this._i18n.sessionRounds.replace('{count}', String(session.entries.length)),
+        detail: (first.summary || '').split('\n')[0],
+        session
+      };
+    });
+    const allEntries = sessions.flatMap(s => s.entries).sort((a, b) => a.requestTimestamp - b.requestTimestamp);
+    const picked = await vscode.window.showQuickPick([
+      ...sessionItems,
+      {
+        label: this._i18n.allHistory,
+        description: this._i18n.sessionRounds.replace('{count}', String(allEntries.length)),
+        detail: undefined,
+        session: { id: null, entries: allEntries } as Session
+      }
+    ], { placeHolder: this._i18n.selectSession });
+    if (!picked) {
+      return;
+    }
+
+    const formats = [
+      { label: this._i18n.exportMarkdownEmbedded, format: 'markdown' as const, ext: 'md' },
+      { label: this._i18n.exportMarkdownFiles, format: 'markdown-files' as const, ext: 'md' },
+      { label: this._i18n.exportJson, format: 'json' as const, ext: 'json' }
+    ];
+    const format = await vscode.window.showQuickPick(formats, { placeHolder: this._i18n.selectExportFormat });
+    if (!format) {
+      return;
+    }
+
+    const workspace = getWorkspacePaths()[0] || '';
+    const started = new Date(picked.session.entries[0].requestTimestamp).toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    const defaultUri = vscode.Uri.file(path.join(workspace || os.homedir(), `feedback-session-${started}.${format.ext}`));
+    const target = await vscode.window.showSaveDialog({
+      defaultUri,
+      filters: format.ext === 'json' ? { JSON: ['json'] } : { Markdown: ['md'] }
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      if (format.format === 'json') {
+        await fs.promises.writeFile(target.fsPath, toJson(picked.session, workspace));
+      } else {
+        // 图片保存到 Markdown 文件旁边的 <文件名>-images 目录
+        const imageDir = format.format === 'markdown-files' ? `${path.basename(target.fsPath, path.extname(target.fsPath))}-images` : null;
+        const { markdown, images } = toMarkdown(picked.session, workspace, imageDir);
+        if (imageDir && images.length > 0) {
+          const dir = path.join(path.dirname(target.fsPath), imageDir);
+          await fs.promises.mkdir(dir, { recursive: true });
+          await Promise.all(images.map(image => fs.promises.writeFile(path.join(dir, image.path), image.data)));
+        }
+        await fs.promises.writeFile(target.fsPath, markdown);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`${this._i18n.exportFailed}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const open = await vscode.window.showInformationMessage(
+      this._i18n.sessionExported.replace('{path}', target.fsPath),
+      this._i18n.openFile
+    );
+    if (open === this._i18n.openFile) {
+      vscode.window.showTextDocument(target);
+    }
+  }
+
+  /**
+   * 导入导出的 JSON 会话记录到历史中
+   */
+  public async importSession() {
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { JSON: ['json'] },
+      openLabel: this._i18n.select
+    });
+    if (!files || files.length === 0) {
+      return;
+    }
+    try {
+      const entries = parseSessionJson(await fs.promises.readFile(files[0].fsPath, 'utf8'));
+      const count = await this._history.import(entries);
+      this._updateHistory();
+      vscode.window.showInformationMessage(this._i18n.sessionImported.replace('{count}', String(count)));
+    } catch (error) {
+      vscode.window.showErrorMessage(`${this._i18n.importFailed}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * 处理清空历史记录
+   */
+  private async _handleClearHistory() {
+    const confirm = await vscode.window.showWarningMessage(
+      this._i18n.clearHistoryConfirm,
+      { modal: true },
+      this._i18n.clearHistory
+    );
+    if (confirm === this._i18n.clearHistory) {
+      await this._history.clear();
+      this._updateHistory();
+    }
+  }
+
   /**
    * 处理反馈提交
    */
   private async _handleFeedbackSubmit(payload: {
     requestId: string;
     interactive_feedback: string;
-    images: Array<{ name: string; data: string; size: number }>;
+    images: Array<{ name: string; data: string; size: number; thumbnail?: string }>;
     attachedFiles: string[];
     project_directory: string;
+    selectedOptions?: string[];
+    formValues?: Record<string, unknown>;
+    approvalDecision?: string;
+    approvalEdits?: string;
+    diffComments?: Array<{ path: string; hunk: string; comment: string }>;
+    inlineFileContents?: boolean;
+    contextItems?: EditorContextItem[];
   }) {
-    // 使用活跃端口提交反馈
-    const port = this._activePort || this._basePort;
+    // 使用请求所在的 Server 提交反馈
+    const endpoint = this._openRequests.get(payload.requestId)?.endpoint || this._activeEndpoint || this._basePort;
+    // 已经提交，请求结束时不再保存草稿
+    this._drafts.delete(payload.requestId);
     
     try {
+      // 展开模板变量（${activeFile}、${selection}、${gitBranch}）
+      payload.interactive_feedback = await expandTemplateVariables(payload.interactive_feedback, payload.project_directory);
+
       const response = await this._httpPost(
-        `http://127.0.0.1:${port}/api/feedback/submit`,
+        endpoint,
+        '/api/feedback/submit',
         JSON.stringify({
           requestId: payload.requestId,
           feedback: {
             interactive_feedback: payload.interactive_feedback,
-            images: payload.images,
+            images: payload.images.map(({ name, data, size }) => ({ name, data, size })),
             attachedFiles: payload.attachedFiles || [],
-            project_directory: payload.project_directory
+            project_directory: payload.project_directory,
+            selectedOptions: payload.selectedOptions || [],
+            formValues: payload.formValues,
+            approvalDecision: payload.approvalDecision,
+            approvalEdits: payload.approvalEdits,
+            diffComments: payload.diffComments || [],
+            inlineFileContents: payload.inlineFileContents,
+            contextItems: payload.contextItems || []
           }
         })
       );
 
       const result = JSON.parse(response);
       if (result.success) {
+        this._autoReplyCount = 0;
         vscode.window.showInformationMessage(this._i18n.feedbackSubmitted);
-        this._currentRequest = null;
-        this._showWaitingState();
+        if (result.rejectedImages?.length) {
+          this._showRejectedImages(result.rejectedImages);
+        }
+        await this._recordHistory(payload);
+        this._closeRequests([payload.requestId]);
       } else {
         vscode.window.showErrorMessage(this._i18n.submitFailed + ': ' + result.error);
       }
@@ -536,12 +1215,282 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 提示用户哪些图片没有发送（界面无法处理或被 Server 拒绝）
+   */
+  private _showRejectedImages(images: Array<{ name: string; reason: string }>) {
+    const list = images.map(img => `${img.name} (${img.reason})`).join(', ');
+    vscode.window.showWarningMessage(this._i18n.imagesRejected.replace('{images}', list));
+  }
+
+  /**
+   * 处理正在输入：记录草稿，并通知 Server 延长等待时间（每个请求最多每 10 秒一次）
+   */
+  private async _handleTyping(requestId: string, draft: FeedbackDraft) {
+    const entry = this._openRequests.get(requestId);
+    if (!entry) {
+      return;
+    }
+    this._drafts.set(requestId, draft);
+    // 用户正在回复，不再自动回复
+    this._cancelAutoReply(requestId);
+
+    const now = Date.now();
+    if (now - (this._lastHeartbeat.get(requestId) || 0) < HEARTBEAT_INTERVAL) {
+      return;
+    }
+    this._lastHeartbeat.set(requestId, now);
+    try {
+      const response = await this._httpPost(entry.endpoint, '/api/feedback/heartbeat', JSON.stringify({ requestId }));
+      const result = this._tryParseJson(response);
+      if (result?.success) {
+        this._applyTimeout(requestId, result.timeout);
+      }
+    } catch (error) {
+      console.error('Failed to send heartbeat:', error);
+    }
+  }
+
+  /**
+   * 更新请求的超时时间（Server 延长等待后）
+   */
+  private _applyTimeout(requestId: string, timeout: number) {
+    const entry = this._openRequests.get(requestId);
+    if (!entry || typeof timeout !== 'number') {
+      return;
+    }
+    entry.request.timeout = timeout;
+    this._notifier.requestExtended(entry.request);
+    this._view?.webview.postMessage({ type: 'updateTimeout', payload: { requestId, timeout } });
+    this._updateStatusBar();
+  }
+
+  /**
+   * 请求未经提交就结束（例如超时）：保存未提交的输入，AI 重新请求反馈时带到新请求
+   */
+  private _saveDraft(requestId: string) {
+    const entry = this._openRequests.get(requestId);
+    const draft = this._drafts.get(requestId);
+    if (!entry || !draft || !(draft.text.trim() || draft.files.length || draft.contextItems?.length)) {
+      return;
+    }
+    this._draftStore.save(entry.request.projectDir, draft, entry.request.timestamp).then(undefined, error => {
+      console.error('Failed to save draft:', error);
+    });
+  }
+
+  /**
+   * 按自动回复规则安排回复（只回答 interactive_feedback，表单和审批需要用户决定）
+   * 返回回复前等待的秒数，不自动回复时返回 null
+   */
+  private _scheduleAutoReply(request: FeedbackRequest): number | null {
+    const settings = getAutoReplySettings();
+    if (!settings.enabled || (request.kind && request.kind !== 'feedback') || this._autoReplyCount >= settings.maxRounds) {
+      return null;
+    }
+    const match = findAutoReplyRule(settings.rules, request, this._round);
+    if (!match) {
+      return null;
+    }
+
+    const delay = Math.max(0, match.rule.delay || 0);
+    const rule = getRuleLabel(match.rule, match.index);
+    this._autoReplyTimers.set(request.id, setTimeout(() => {
+      this._autoReplyTimers.delete(request.id);
+      this._sendAutoReply(request, match.rule.reply, rule, settings.maxRounds);
+    }, delay * 1000));
+    return delay;
+  }
+
+  private _cancelAutoReply(requestId: string) {
+    const timer = this._autoReplyTimers.get(requestId);
+    if (timer) {
+      clearTimeout(timer);
+      this._autoReplyTimers.delete(requestId);
+    }
+  }
+
+  /**
+   * 提交自动回复，并在历史记录中标记匹配的规则和连续自动回复的轮数
+   */
+  private async _sendAutoReply(request: FeedbackRequest, reply: string, rule: string, maxRounds: number) {
+    const entry = this._openRequests.get(request.id);
+    if (!entry) {
+      return;
+    }
+    const feedback = await expandTemplateVariables(reply, request.projectDir);
+    try {
+      const response = await this._httpPost(
+        entry.endpoint,
+        '/api/feedback/submit',
+        JSON.stringify({
+          requestId: request.id,
+          feedback: {
+            interactive_feedback: feedback,
+            images: [],
+            attachedFiles: [],
+            project_directory: request.projectDir,
+            selectedOptions: []
+          }
+        })
+      );
+      const result = this._tryParseJson(response);
+      if (!result?.success) {
+        console.error('Auto-reply failed:', result?.error);
+        return;
+      }
+
+      this._autoReplyCount++;
+      console.log(`Auto-replied to ${request.id} (rule ${rule}, ${this._autoReplyCount}/${maxRounds})`);
+      await this._recordHistory({
+        requestId: request.id,
+        interactive_feedback: feedback,
+        images: [],
+        attachedFiles: [],
+        project_directory: request.projectDir,
+        autoReply: { rule, count: this._autoReplyCount, maxRounds }
+      });
+      this._closeRequests([request.id]);
+      vscode.window.setStatusBarMessage(`$(hubot) ${this._i18n.autoReplied}: ${feedback.split('\n')[0]}`, 10000);
+      if (this._autoReplyCount >= maxRounds) {
+        vscode.window.showWarningMessage(this._i18n.autoReplyLimitReached.replace('{count}', String(maxRounds)));
+      }
+    } catch (error) {
+      console.error('Auto-reply failed:', error);
+    }
+  }
+
+  /**
+   * 处理跳过请求（dismissed）/ 结束对话（ended）
+   */
+  private async _handleCancelRequest(requestId: string, reason: 'dismissed' | 'ended') {
+    if (reason === 'ended') {
+      const confirm = await vscode.window.showWarningMessage(
+        this._i18n.endSessionConfirm,
+        { modal: true },
+        this._i18n.endSession
+      );
+      if (confirm !== this._i18n.endSession) {
+        return;
+      }
+    }
+
+    const endpoint = this._openRequests.get(requestId)?.endpoint || this._activeEndpoint || this._basePort;
+    // 用户主动跳过或结束对话，请求结束时不保存草稿（结束对话会结束该 Server 上的所有请求）
+    for (const [id, entry] of this._openRequests) {
+      if (id === requestId || (reason === 'ended' && entry.endpoint === endpoint)) {
+        this._drafts.delete(id);
+      }
+    }
+    try {
+      const response = await this._httpPost(
+        endpoint,
+        '/api/feedback/cancel',
+        JSON.stringify({ requestId, reason })
+      );
+      const result = JSON.parse(response);
+      if (!result.success) {
+        vscode.window.showErrorMessage(this._i18n.cancelFailed + ': ' + result.error);
+        return;
+      }
+
+      const cancelled: string[] = result.cancelled || [requestId];
+      this._autoReplyCount = 0;
+      for (const id of cancelled) {
+        const request = this._openRequests.get(id)?.request;
+        if (request) {
+          await this._recordHistory({
+            requestId: id,
+            interactive_feedback: '',
+            images: [],
+            attachedFiles: [],
+            project_directory: request.projectDir,
+            cancelReason: reason
+          });
+        }
+      }
+      // 结束对话后开始新的会话
+      if (reason === 'ended') {
+        this._round = 0;
+        this._sessionId = crypto.randomUUID();
+      }
+      this._closeRequests(cancelled);
+    } catch (error) {
+      vscode.window.showErrorMessage(this._i18n.cancelFailed + ': ' + this._i18n.cannotConnectMCP);
+    }
+  }
+
+  /**
+   * 移除已结束的请求，显示下一个待处理的请求
+   */
+  private _closeRequests(requestIds: string[]) {
+    for (const id of requestIds) {
+      this._openRequests.delete(id);
+      this._preparedChanges.delete(id);
+      this._drafts.delete(id);
+      this._lastHeartbeat.delete(id);
+      this._cancelAutoReply(id);
+    }
+    this._currentRequest = this._getNewestOpenRequest();
+    this._updateRequestList();
+    if (this._currentRequest) {
+      this._showFeedbackRequest(this._currentRequest);
+    } else {
+      this._showWaitingState();
+    }
+  }
+
+  /**
+   * 将已提交的一轮反馈写入历史记录
+   */
+  private async _recordHistory(payload: {
+    requestId: string;
+    interactive_feedback: string;
+    images: Array<{ name: string; thumbnail?: string }>;
+    attachedFiles: string[];
+    project_directory: string;
+    selectedOptions?: string[];
+    formValues?: Record<string, unknown>;
+    approvalDecision?: string;
+    approvalEdits?: string;
+    diffComments?: Array<{ path: string; hunk: string; comment: string }>;
+    contextItems?: EditorContextItem[];
+    cancelReason?: 'dismissed' | 'ended';
+    autoReply?: { rule: string; count: number; maxRounds: number };
+  }) {
+    const request = this._openRequests.get(payload.requestId)?.request || null;
+    try {
+      await this._history.add({
+        requestId: payload.requestId,
+        sessionId: this._sessionId,
+        summary: request?.summary || '',
+        projectDir: request?.projectDir || payload.project_directory,
+        requestTimestamp: request?.timestamp || Date.now(),
+        replyTimestamp: Date.now(),
+        feedback: payload.interactive_feedback,
+        images: payload.images.map(img => ({ name: img.name, thumbnail: img.thumbnail || '' })),
+        attachedFiles: payload.attachedFiles || [],
+        selectedOptions: payload.selectedOptions || [],
+        formValues: payload.formValues,
+        approvalDecision: payload.approvalDecision,
+        diffComments: payload.diffComments,
+        contextItems: payload.contextItems,
+        cancelReason: payload.cancelReason,
+        autoReply: payload.autoReply
+      });
+      this._updateHistory();
+    } catch (error) {
+      console.error('Failed to save feedback history:', error);
+    }
+  }
+
   /**
    * 处理选择文件/文件夹
+   * target 为表单字段名时只选择一个路径并填入该字段
    */
-  private async _handleSelectPath() {
+  private async _handleSelectPath(target?: string) {
     const result = await vscode.window.showOpenDialog({
-      canSelectMany: true,
+      canSelectMany: !target,
       canSelectFiles: true,
       canSelectFolders: true,
       openLabel: this._i18n.select
@@ -551,11 +1500,93 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
       const paths = result.map(uri => uri.fsPath);
       this._view?.webview.postMessage({
         type: 'filesSelected',
-        payload: { paths }
+        payload: { paths, target }
       });
     }
   }
 
+  /**
+   * 获取最近使用的文本编辑器
+   * （焦点在侧边栏时 activeTextEditor 可能为空，退回到可见的编辑器）
+   */
+  private _getEditor(): vscode.TextEditor | undefined {
+    const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+    if (!editor) {
+      vscode.window.showWarningMessage(this._i18n.noActiveEditor);
+    }
+    return editor;
+  }
+
+  /**
+   * 附加当前编辑器中选中的代码（未选中时附加光标所在行）
+   */
+  private _handleAttachSelection() {
+    const editor = this._getEditor();
+    if (!editor) {
+      return;
+    }
+
+    const selection = editor.selection;
+    const range = selection.isEmpty
+      ? editor.document.lineAt(selection.active.line).range
+      : new vscode.Range(selection.start, selection.end);
+    const item: EditorContextItem = {
+      kind: 'selection',
+      path: editor.document.uri.fsPath,
+      startLine: range.start.line + 1,
+      // 选区结束于下一行行首时不算该行
+      endLine: range.end.character === 0 && range.end.line > range.start.line ? range.end.line : range.end.line + 1,
+      languageId: editor.document.languageId,
+      text: editor.document.getText(range)
+    };
+    this._view?.webview.postMessage({ type: 'contextAttached', payload: item });
+  }
+
+  /**
+   * 附加当前编辑器打开的文件（加入附加文件列表）
+   */
+  private _handleAttachActiveFile() {
+    const editor = this._getEditor();
+    if (!editor) {
+      return;
+    }
+    if (editor.document.isUntitled) {
+      vscode.window.showWarningMessage(this._i18n.activeFileUntitled);
+      return;
+    }
+    this._view?.webview.postMessage({
+      type: 'filesSelected',
+      payload: { paths: [editor.document.uri.fsPath] }
+    });
+  }
+
+  /**
+   * 附加当前文件在"问题"面板中的诊断信息
+   */
+  private _handleAttachDiagnostics() {
+    const editor = this._getEditor();
+    if (!editor) {
+      return;
+    }
+
+    const severities = ['error', 'warning', 'info', 'hint'] as const;
+    const item: EditorContextItem = {
+      kind: 'diagnostics',
+      path: editor.document.uri.fsPath,
+      diagnostics: vscode.languages.getDiagnostics(editor.document.uri)
+        .sort((a, b) => a.severity - b.severity || a.range.start.line - b.range.start.line)
+        .map(d => ({
+          severity: severities[d.severity],
+          line: d.range.start.line + 1,
+          column: d.range.start.character + 1,
+          message: d.message,
+          source: d.source,
+          code: d.code === undefined ? undefined : String(typeof d.code === 'object' ? d.code.value : d.code)
+        }))
+    };
+    this._view?.webview.postMessage({ type: 'contextAttached', payload: item });
+  }
+
   /**
    * 处理语言切换
    */
@@ -601,12 +1632,110 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 读取登记文件（force 为 false 时最多每秒读取一次）
+   */
+  private _loadRegistry(force = false): ServerEntry[] {
+    if (force || Date.now() - this._registryLoadedAt > 1000) {
+      this._registryLoadedAt = Date.now();
+      this._registry = readServerEntries();
+      this._tokens = new Map();
+      for (const entry of this._registry) {
+        if (entry.port !== null) {
+          this._tokens.set(entry.port, entry.token);
+        }
+      }
+    }
+    return this._registry;
+  }
+
+  /**
+   * 读取远程开发中转配置（cursorFeedback.relayUrl，例如 http://127.0.0.1:61920/?token=xxx）
+   */
+  private _getRelay(): { hostname: string; port: number; token: string } | null {
+    const relayUrl = vscode.workspace.getConfiguration('cursorFeedback').get<string>('relayUrl') || '';
+    if (!relayUrl) {
+      return null;
+    }
+    try {
+      const url = new URL(relayUrl);
+      return {
+        hostname: url.hostname,
+        port: Number(url.port) || 80,
+        token: url.searchParams.get('token') || ''
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 构造访问 Server 的请求参数
+   * TCP 端口需要携带登记文件中的 token（旧版本 Server 没有登记文件，不需要 token）；
+   * socket 由文件权限保护，不需要 token；
+   * 中转使用 relayUrl 中的 token，"relay:"（不带 pid）表示中转本身
+   */
+  private _requestOptions(endpoint: Endpoint, urlPath: string): http.RequestOptions {
+    if (typeof endpoint === 'string' && endpoint.startsWith(RELAY_PREFIX)) {
+      const relay = this._getRelay();
+      if (!relay) {
+        throw new Error('cursorFeedback.relayUrl is not configured');
+      }
+      const pid = endpoint.slice(RELAY_PREFIX.length);
+      return {
+        hostname: relay.hostname,
+        port: relay.port,
+        path: pid ? `/api/relay/${pid}${urlPath}` : urlPath,
+        headers: { [TOKEN_HEADER]: relay.token }
+      };
+    }
+    if (typeof endpoint === 'string') {
+      return { socketPath: endpoint, path: urlPath };
+    }
+    if (!this._tokens.has(endpoint)) {
+      this._loadRegistry();
+    }
+    const token = this._tokens.get(endpoint);
+    return {
+      hostname: '127.0.0.1',
+      port: endpoint,
+      path: urlPath,
+      headers: token ? { [TOKEN_HEADER]: token } : {}
+    };
+  }
+
+  /**
+   * 清除缓存的 token（Server 重启后 token 会变化）
+   */
+  private _forgetToken(endpoint: Endpoint) {
+    if (typeof endpoint === 'number') {
+      this._tokens.delete(endpoint);
+    }
+  }
+
+  /**
+   * 处理认证失败：清除缓存的 token 并返回错误
+   */
+  private _checkAuth(endpoint: Endpoint, res: http.IncomingMessage): Error | null {
+    if (res.statusCode === 401 || res.statusCode === 403) {
+      this._forgetToken(endpoint);
+      res.resume();
+      return new Error(`Unauthorized (${res.statusCode})`);
+    }
+    return null;
+  }
+
   /**
    * HTTP GET 请求
    */
-  private _httpGet(url: string): Promise<string> {
+  private _httpGet(endpoint: Endpoint, urlPath: string): Promise<string> {
     return new Promise((resolve, reject) => {
-      const req = http.get(url, { timeout: 3000 }, (res) => {
+      const req = http.get({ ...this._requestOptions(endpoint, urlPath), timeout: 3000 }, (res) => {
+        const authError = this._checkAuth(endpoint, res);
+        if (authError) {
+          reject(authError);
+          return;
+        }
         let data = '';
         res.on('data', chunk => data += chunk);
         res.on('end', () => resolve(data));
@@ -622,22 +1751,24 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
   /**
    * HTTP POST 请求
    */
-  private _httpPost(url: string, body: string): Promise<string> {
+  private _httpPost(endpoint: Endpoint, urlPath: string, body: string): Promise<string> {
     return new Promise((resolve, reject) => {
-      const urlObj = new URL(url);
-      const options = {
-        hostname: urlObj.hostname,
-        port: urlObj.port,
-        path: urlObj.pathname,
+      const options = this._requestOptions(endpoint, urlPath);
+      const req = http.request({
+        ...options,
         method: 'POST',
         headers: {
+          ...options.headers,
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(body)
         },
         timeout: 5000
-      };
-
-      const req = http.request(options, (res) => {
+      }, (res) => {
+        const authError = this._checkAuth(endpoint, res);
+        if (authError) {
+          reject(authError);
+          return;
+        }
         let data = '';
         res.on('data', chunk => data += chunk);
         res.on('end', () => resolve(data));
@@ -668,8 +1799,9 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     const htmlTemplatePath = path.join(this._extensionUri.fsPath, 'dist', 'webview', 'index.html');
     let htmlTemplate = fs.readFileSync(htmlTemplatePath, 'utf-8');
 
-    // CSP 策略
-    const csp = `default-src 'none'; style-src ${webview.cspSource}; script-src 'unsafe-inline' ${webview.cspSource}; img-src data:;`;
+    // CSP 策略：内联脚本只允许带 nonce 的 i18n 数据（摘要中的 HTML 无法执行脚本或事件处理器）
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}' ${webview.cspSource}; img-src data:;`;
 
     // 获取语言设置
     const language = getLanguage();
@@ -678,6 +1810,7 @@ class FeedbackViewProvider implements vscode.WebviewViewProvider {
     // 替换占位符
     htmlTemplate = htmlTemplate
       .replace(/\{\{CSP\}\}/g, csp)
+      .replace(/\{\{NONCE\}\}/g, nonce)
       .replace(/\{\{LANG\}\}/g, langCode)
       .replace(/\{\{MARKED_JS_URI\}\}/g, markedJsUri.toString())
       .replace(/\{\{STYLES_CSS_URI\}\}/g, stylesCssUri.toString())
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 附加文件内容内联：读取用户附加的文件/文件夹，作为文本资源返回给 AI
+ * 文件夹会按 .gitignore 规则展开，二进制文件会被跳过，超出大小限制时截断
+ */
+
+export interface FileContentLimits {
+  maxFileBytes: number; // 单个文件最多读取的字节数
+  maxTotalBytes: number; // 所有文件合计最多读取的字节数
+  maxFiles: number; // 最多包含的文件数
+}
+
+export interface InlinedFile {
+  path: string;
+  text: string;
+  truncated: boolean;
+}
+
+export interface FileContentsResult {
+  files: InlinedFile[];
+  skipped: Array<{ path: string; reason: string }>;
+  // 达到总大小或文件数限制，后面的文件没有读取
+  limitReached: boolean;
+}
+
+interface IgnoreRule {
+  base: string; // .gitignore 所在目录
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+// 总是忽略的目录
+const ALWAYS_IGNORED = new Set(['.git']);
+
+/**
+ * 从环境变量读取大小限制
+ */
+export function getFileContentLimits(): FileContentLimits {
+  const readInt = (name: string, fallback: number) => {
+    const value = process.env[name] ? parseInt(process.env[name]!, 10) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    maxFileBytes: readInt('MCP_FEEDBACK_MAX_FILE_SIZE', 100 * 1024),
+    maxTotalBytes: readInt('MCP_FEEDBACK_MAX_TOTAL_SIZE', 500 * 1024),
+    maxFiles: readInt('MCP_FEEDBACK_MAX_FILES', 100),
+  };
+}
+
+/**
+ * 读取附加的文件和文件夹内容
+ */
+export async function collectFileContents(paths: string[], limits: FileContentLimits): Promise<FileContentsResult> {
+  const result: FileContentsResult = { files: [], skipped: [], limitReached: false };
+  let totalBytes = 0;
+
+  // 展开文件夹后得到的文件列表
+  const filePaths: string[] = [];
+  for (const p of paths) {
+    try {
+      const stat = await fs.promises.stat(p);
+      if (stat.isDirectory()) {
+        await walkDirectory(p, await loadAncestorRules(p), filePaths, limits.maxFiles + 1);
+      } else {
+        filePaths.push(p);
+      }
+    } catch {
+      result.skipped.push({ path: p, reason: 'not found' });
+    }
+  }
+
+  for (const filePath of filePaths) {
+    if (result.files.length >= limits.maxFiles || totalBytes >= limits.maxTotalBytes) {
+      result.limitReached = true;
+      break;
+    }
+
+    try {
+      const budget = Math.min(limits.maxFileBytes, limits.maxTotalBytes - totalBytes);
+      const { buffer, size } = await readHead(filePath, budget);
+      if (isBinary(buffer)) {
+        result.skipped.push({ path: filePath, reason: 'binary file' });
+        continue;
+      }
+      result.files.push({
+        path: filePath,
+        text: buffer.toString('utf-8'),
+        truncated: size > buffer.length,
+      });
+      totalBytes += buffer.length;
+    } catch (error) {
+      result.skipped.push({ path: filePath, reason: `read failed: ${error}` });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 读取文件开头最多 maxBytes 字节
+ */
+async function readHead(filePath: string, maxBytes: number): Promise<{ buffer: Buffer; size: number }> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const buffer = Buffer.alloc(Math.min(size, maxBytes));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return { buffer: buffer.subarray(0, bytesRead), size };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 二进制检测：开头 8000 字节内包含 NUL 字节
+ */
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * 递归遍历文件夹，跳过被 .gitignore 忽略的文件
+ */
+async function walkDirectory(dir: string, rules: IgnoreRule[], out: string[], maxFiles: number): Promise<void> {
+  const localRules = [...rules, ...await loadIgnoreFile(dir)];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (out.length >= maxFiles) {
+      return;
+    }
+    const fullPath = path.join(dir, entry.name);
+    const isDir = entry.isDirectory();
+    if ((isDir && ALWAYS_IGNORED.has(entry.name)) || isIgnored(fullPath, isDir, localRules)) {
+      continue;
+    }
+    if (isDir) {
+      await walkDirectory(fullPath, localRules, out, maxFiles);
+    } else if (entry.isFile()) {
+      out.push(fullPath);
+    }
+  }
+}
+
+/**
+ * 加载附加文件夹上层（直到 git 仓库根目录）的 .gitignore 规则
+ */
+async function loadAncestorRules(dir: string): Promise<IgnoreRule[]> {
+  const ancestors: string[] = [];
+  let current = path.dirname(path.resolve(dir));
+  while (true) {
+    ancestors.unshift(current);
+    if (fs.existsSync(path.join(current, '.git'))) {
+      break;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      // 不在 git 仓库中，只使用文件夹自身的规则
+      return [];
+    }
+    current = parent;
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const ancestor of ancestors) {
+    rules.push(...await loadIgnoreFile(ancestor));
+  }
+  return rules;
+}
+
+/**
+ * 读取目录下的 .gitignore
+ */
+async function loadIgnoreFile(dir: string): Promise<IgnoreRule[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(dir, '.gitignore'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    }
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) {
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) {
+      continue;
+    }
+    rules.push({ base: dir, regex: globToRegex(line), negate, dirOnly });
+  }
+  return rules;
+}
+
+/**
+ * 将 .gitignore 模式转换为正则
+ * 不含斜杠的模式匹配任意层级的文件名，含斜杠的模式相对于 .gitignore 所在目录
+ */
+function globToRegex(pattern: string): RegExp {
+  const anchored = pattern.includes('/');
+  const body = pattern
+    .replace(/^\//, '')
+    .split(/(\*\*\/|\/\*\*|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/': return '(?:.*/)?';
+        case '/**': return '/.*';
+        case '**': return '.*';
+        case '*': return '[^/]*';
+        case '?': return '[^/]';
+        default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+  return new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+}
+
+/**
+ * 检查路径是否被忽略（后面的规则优先）
+ */
+function isIgnored(fullPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) {
+      continue;
+    }
+    const relative = path.relative(rule.base, fullPath).split(path.sep).join('/');
+    if (!relative || relative.startsWith('..')) {
+      continue;
+    }
+    if (rule.regex.test(relative)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,137 @@
+/**
+ * ask_user 工具的表单字段定义与校验
+ * （WebView 提交前会做同样的校验，这里是 Server 端的兜底）
+ */
+
+export type FormFieldType = 'string' | 'boolean' | 'enum' | 'number' | 'path';
+
+export interface FormField {
+  name: string;
+  type: FormFieldType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  options?: string[]; // enum
+  min?: number; // number
+  max?: number; // number
+  pattern?: string; // string / path
+}
+
+const FIELD_TYPES: FormFieldType[] = ['string', 'boolean', 'enum', 'number', 'path'];
+
+/**
+ * 校验并规范化 AI 传入的字段列表
+ * 返回规范化后的字段，或错误信息
+ */
+export function parseFormFields(input: unknown): { fields: FormField[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'fields must be a non-empty array' };
+  }
+
+  const fields: FormField[] = [];
+  const names = new Set<string>();
+
+  for (const [index, raw] of input.entries()) {
+    if (!raw || typeof raw !== 'object') {
+      return { error: `fields[${index}] must be an object` };
+    }
+    const item = raw as Record<string, unknown>;
+    const name = item.name;
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: `fields[${index}].name is required` };
+    }
+    if (names.has(name)) {
+      return { error: `Duplicate field name: ${name}` };
+    }
+    names.add(name);
+
+    const type = (item.type || 'string') as FormFieldType;
+    if (!FIELD_TYPES.includes(type)) {
+      return { error: `Field "${name}" has unsupported type "${item.type}" (expected one of ${FIELD_TYPES.join(', ')})` };
+    }
+
+    const field: FormField = { name, type };
+    if (typeof item.label === 'string') field.label = item.label;
+    if (typeof item.description === 'string') field.description = item.description;
+    if (typeof item.required === 'boolean') field.required = item.required;
+    if (['string', 'number', 'boolean'].includes(typeof item.default)) {
+      field.default = item.default as string | number | boolean;
+    }
+    if (typeof item.min === 'number') field.min = item.min;
+    if (typeof item.max === 'number') field.max = item.max;
+    if (typeof item.pattern === 'string') {
+      try {
+        new RegExp(item.pattern);
+      } catch {
+        return { error: `Field "${name}" has an invalid pattern` };
+      }
+      field.pattern = item.pattern;
+    }
+
+    if (type === 'enum') {
+      const options = Array.isArray(item.options)
+        ? item.options.filter((o): o is string => typeof o === 'string')
+        : [];
+      if (options.length === 0) {
+        return { error: `Enum field "${name}" requires a non-empty options array` };
+      }
+      field.options = options;
+    }
+
+    fields.push(field);
+  }
+
+  return { fields };
+}
+
+/**
+ * 校验用户提交的表单值
+ * 返回错误列表（为空表示通过）
+ */
+export function validateFormValues(fields: FormField[], values: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const value = values[field.name];
+    const label = field.label || field.name;
+    const isEmpty = value === undefined || value === null || value === '';
+
+    if (isEmpty) {
+      if (field.required && field.type !== 'boolean') {
+        errors.push(`${label} is required`);
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push(`${label} must be true or false`);
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${label} must be a number`);
+        } else if (field.min !== undefined && value < field.min) {
+          errors.push(`${label} must be >= ${field.min}`);
+        } else if (field.max !== undefined && value > field.max) {
+          errors.push(`${label} must be <= ${field.max}`);
+        }
+        break;
+      case 'enum':
+        if (typeof value !== 'string' || !field.options?.includes(value)) {
+          errors.push(`${label} must be one of: ${field.options?.join(', ')}`);
+        }
+        break;
+      default:
+        if (typeof value !== 'string') {
+          errors.push(`${label} must be a string`);
+        } else if (field.pattern && !new RegExp(field.pattern).test(value)) {
+          errors.push(`${label} does not match pattern ${field.pattern}`);
+        }
+    }
+  }
+
+  return errors;
+}
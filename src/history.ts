@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { EditorContextItem } from './editor-context';
+
+/**
+ * 历史记录中的一条反馈轮次
+ */
+export interface HistoryEntry {
+  requestId: string;
+  // 所属会话（窗口打开或结束对话后开始新的会话），用于导出会话记录
+  sessionId?: string;
+  summary: string;
+  projectDir: string;
+  requestTimestamp: number;
+  replyTimestamp: number;
+  feedback: string;
+  // 只保存缩略图（data URL），避免 workspaceState 过大
+  images: Array<{ name: string; thumbnail: string }>;
+  attachedFiles: string[];
+  selectedOptions?: string[];
+  formValues?: Record<string, unknown>;
+  approvalDecision?: string;
+  diffComments?: Array<{ path: string; hunk: string; comment: string }>;
+  contextItems?: EditorContextItem[];
+  // 用户没有回复，而是跳过了请求或结束了对话
+  cancelReason?: 'dismissed' | 'ended';
+  // 由自动回复规则回答：匹配的规则，以及连续自动回复的轮数 / 上限
+  autoReply?: { rule: string; count: number; maxRounds: number };
+}
+
+const STORAGE_KEY = 'cursorFeedback.history';
+const MAX_ENTRIES = 200;
+
+/**
+ * 反馈历史记录，按工作区持久化在扩展存储中（窗口重载后仍然保留）
+ */
+export class FeedbackHistory {
+  constructor(private readonly _storage: vscode.Memento) {}
+
+  /**
+   * 获取全部记录（按时间倒序）
+   */
+  public getAll(): HistoryEntry[] {
+    return this._storage.get<HistoryEntry[]>(STORAGE_KEY, []);
+  }
+
+  /**
+   * 添加一条记录，超出上限时丢弃最旧的记录
+   */
+  public async add(entry: HistoryEntry): Promise<void> {
+    const entries = [entry, ...this.getAll().filter(e => e.requestId !== entry.requestId)];
+    await this._storage.update(STORAGE_KEY, entries.slice(0, MAX_ENTRIES));
+  }
+
+  /**
+   * 导入记录（跳过已有的请求），返回导入的条数
+   */
+  public async import(entries: HistoryEntry[]): Promise<number> {
+    const existing = this.getAll();
+    const ids = new Set(existing.map(e => e.requestId));
+    const added = entries.filter(e => !ids.has(e.requestId));
+    const merged = [...existing, ...added].sort((a, b) => b.replyTimestamp - a.replyTimestamp);
+    await this._storage.update(STORAGE_KEY, merged.slice(0, MAX_ENTRIES));
+    return added.length;
+  }
+
+  /**
+   * 清空记录
+   */
+  public async clear(): Promise<void> {
+    await this._storage.update(STORAGE_KEY, []);
+  }
+}
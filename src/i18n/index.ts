@@ -35,6 +35,71 @@ export type I18nMessages = {
   submitFailed: string;
   cannotConnectMCP: string;
   select: string;
+  history: string;
+  searchHistory: string;
+  noHistory: string;
+  clearHistory: string;
+  clearHistoryConfirm: string;
+  yourReply: string;
+  optionsSingleHint: string;
+  optionsMultiHint: string;
+  fieldRequired: string;
+  fieldInvalidNumber: string;
+  fieldMin: string;
+  fieldMax: string;
+  fieldPattern: string;
+  approvalRequired: string;
+  approvalDetails: string;
+  approve: string;
+  approveWithEdits: string;
+  reject: string;
+  reviewChanges: string;
+  openDiff: string;
+  addComment: string;
+  commentPlaceholder: string;
+  noChanges: string;
+  loadingChanges: string;
+  inlineFileContents: string;
+  noActiveEditor: string;
+  activeFileUntitled: string;
+  attachSelection: string;
+  attachActiveFile: string;
+  attachDiagnostics: string;
+  dismissRequest: string;
+  dismissRequestTooltip: string;
+  endSession: string;
+  endSessionTooltip: string;
+  endSessionConfirm: string;
+  cancelFailed: string;
+  requestDismissed: string;
+  sessionEnded: string;
+  reminderWaiting: string;
+  openFeedback: string;
+  waitingBadge: string;
+  statusBarListening: string;
+  autoReplied: string;
+  autoReplyLimitReached: string;
+  autoReplyOn: string;
+  autoReplyOff: string;
+  noHistoryToExport: string;
+  currentSession: string;
+  earlierHistory: string;
+  allHistory: string;
+  sessionRounds: string;
+  selectSession: string;
+  selectExportFormat: string;
+  exportMarkdownEmbedded: string;
+  exportMarkdownFiles: string;
+  exportJson: string;
+  sessionExported: string;
+  exportFailed: string;
+  openFile: string;
+  sessionImported: string;
+  importFailed: string;
+  exportSession: string;
+  imagesRejected: string;
+  imageDecodeFailed: string;
+  imageTooLarge: string;
 };
 
 let cachedMessages: I18nMessages | null = null;
@@ -126,6 +191,71 @@ function getDefaultMessages(): I18nMessages {
     feedbackSubmitted: "Feedback submitted",
     submitFailed: "Submit failed",
     cannotConnectMCP: "Cannot connect to MCP Server",
-    select: "Select"
+    select: "Select",
+    history: "History",
+    searchHistory: "Search history...",
+    noHistory: "No feedback history yet",
+    clearHistory: "Clear history",
+    clearHistoryConfirm: "Clear all feedback history for this workspace?",
+    yourReply: "Your reply",
+    optionsSingleHint: "Click an option to reply (text below is sent as a comment)",
+    optionsMultiHint: "Select one or more options, then submit",
+    fieldRequired: "This field is required",
+    fieldInvalidNumber: "Please enter a valid number",
+    fieldMin: "Must be at least",
+    fieldMax: "Must be at most",
+    fieldPattern: "Must match pattern",
+    approvalRequired: "Approval required",
+    approvalDetails: "Action details (editable)",
+    approve: "Approve",
+    approveWithEdits: "Approve with edits",
+    reject: "Reject",
+    reviewChanges: "Review changes",
+    openDiff: "Open in diff editor",
+    addComment: "Comment on this hunk",
+    commentPlaceholder: "Comment for this hunk...",
+    noChanges: "No changes found",
+    loadingChanges: "Loading changes...",
+    inlineFileContents: "Send file contents (not just paths)",
+    noActiveEditor: "No active editor",
+    activeFileUntitled: "The active file has not been saved yet",
+    attachSelection: "Attach selection",
+    attachActiveFile: "Attach active file",
+    attachDiagnostics: "Attach problems",
+    dismissRequest: "Skip",
+    dismissRequestTooltip: "Dismiss this request without replying",
+    endSession: "End conversation",
+    endSessionTooltip: "Tell the AI to stop asking for feedback",
+    endSessionConfirm: "End the conversation? All waiting requests will be closed and the AI will be told to stop calling the feedback tools.",
+    cancelFailed: "Failed to cancel request",
+    requestDismissed: "Dismissed",
+    sessionEnded: "Conversation ended",
+    reminderWaiting: "AI is still waiting for your feedback ({remaining} left)",
+    openFeedback: "Open",
+    waitingBadge: "{count} request(s) waiting for your feedback",
+    statusBarListening: "Cursor Feedback: connected ({endpoint}), waiting for AI requests",
+    autoReplied: "Auto-replied",
+    autoReplyLimitReached: "Auto-reply paused after {count} automatic rounds in a row. It resumes after you reply manually.",
+    autoReplyOn: "Auto-reply enabled",
+    autoReplyOff: "Auto-reply disabled",
+    noHistoryToExport: "No feedback history to export",
+    currentSession: "Current session",
+    earlierHistory: "Earlier history",
+    allHistory: "All history",
+    sessionRounds: "{count} rounds",
+    selectSession: "Select a session to export",
+    selectExportFormat: "Select an export format",
+    exportMarkdownEmbedded: "Markdown (images embedded)",
+    exportMarkdownFiles: "Markdown (images saved to a folder)",
+    exportJson: "JSON (can be imported again)",
+    sessionExported: "Session exported to {path}",
+    exportFailed: "Export failed",
+    openFile: "Open",
+    sessionImported: "Imported {count} history entries",
+    importFailed: "Import failed",
+    exportSession: "Export session",
+    imagesRejected: "Some images were not sent: {images}",
+    imageDecodeFailed: "unsupported or corrupted image",
+    imageTooLarge: "larger than {size} after downscaling"
   };
 }
@@ -0,0 +1,144 @@
+/**
+ * 图片检查：根据文件内容（而不是文件名）识别图片格式和尺寸，超出大小限制或格式不支持的图片不发送给 AI
+ * 缩小图片由界面完成（Server 端没有图片解码能力），最大边长通过请求传给界面；
+ * 绕过界面提交且超过最大边长的图片由 Server 拒绝（命令行在提交前按请求中的限制检查）。GIF 在界面中不缩小（会丢失动画），因此不检查边长
+ */
+
+export interface ImageLimits {
+  maxImageBytes: number; // 单张图片的最大字节数
+  maxTotalBytes: number; // 一次提交中所有图片合计的最大字节数
+  maxDimension: number; // 图片的最大边长（像素），0 表示不限制
+}
+
+export interface ImageInfo {
+  mimeType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+  width: number;
+  height: number;
+}
+
+export interface SubmittedImage {
+  name: string;
+  data: string; // base64
+  size: number;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface RejectedImage {
+  name: string;
+  reason: string;
+}
+
+/**
+ * 从环境变量读取图片限制
+ */
+export function getImageLimits(): ImageLimits {
+  const readInt = (name: string, fallback: number, allowZero = false) => {
+    const value = process.env[name] ? parseInt(process.env[name]!, 10) : NaN;
+    return Number.isFinite(value) && (value > 0 || (allowZero && value === 0)) ? value : fallback;
+  };
+  return {
+    maxImageBytes: readInt('MCP_FEEDBACK_MAX_IMAGE_SIZE', 5 * 1024 * 1024),
+    maxTotalBytes: readInt('MCP_FEEDBACK_MAX_IMAGE_TOTAL_SIZE', 20 * 1024 * 1024),
+    maxDimension: readInt('MCP_FEEDBACK_MAX_IMAGE_DIMENSION', 1568, true),
+  };
+}
+
+/**
+ * 根据文件头识别图片格式并读取尺寸（PNG / JPEG / GIF / WebP），无法识别时返回 null
+ */
+export function sniffImage(data: Buffer): ImageInfo | null {
+  // PNG：签名 + IHDR
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    return { mimeType: 'image/png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF87a / GIF89a
+  if (data.length >= 10 && /^GIF8[79]a$/.test(data.toString('latin1', 0, 6))) {
+    return { mimeType: 'image/gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // JPEG：尺寸在 SOF 段中
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    let offset = 2;
+    while (offset + 9 <= data.length) {
+      if (data[offset] !== 0xff) {
+        return null;
+      }
+      const marker = data[offset + 1];
+      // 填充字节
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // SOF0-SOF15（不包括 DHT、JPG、DAC）
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { mimeType: 'image/jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+
+  // WebP：RIFF 容器，尺寸的位置取决于编码方式
+  if (data.length >= 30 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    switch (data.toString('latin1', 12, 16)) {
+      case 'VP8 ':
+        return { mimeType: 'image/webp', width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+      case 'VP8L': {
+        const bits = data.readUInt32LE(21);
+        return { mimeType: 'image/webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      case 'VP8X':
+        return { mimeType: 'image/webp', width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return null;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} bytes`;
+  }
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * 检查提交的图片：识别格式和尺寸，拒绝无法识别、超过最大边长、超过单张或合计大小限制的图片
+ */
+export function checkImages(
+  images: SubmittedImage[],
+  limits: ImageLimits
+): { accepted: SubmittedImage[]; rejected: RejectedImage[] } {
+  const accepted: SubmittedImage[] = [];
+  const rejected: RejectedImage[] = [];
+  let totalBytes = 0;
+
+  for (const image of images) {
+    const name = typeof image?.name === 'string' && image.name ? image.name : 'image';
+    const data = typeof image?.data === 'string' ? Buffer.from(image.data, 'base64') : Buffer.alloc(0);
+    const info = sniffImage(data);
+    if (!info) {
+      rejected.push({ name, reason: 'unsupported or corrupted image (PNG, JPEG, GIF and WebP are supported)' });
+      continue;
+    }
+    if (limits.maxDimension > 0 && info.mimeType !== 'image/gif' && Math.max(info.width, info.height) > limits.maxDimension) {
+      rejected.push({ name, reason: `${info.width}x${info.height} exceeds the ${limits.maxDimension} px limit (downscale it before sending)` });
+      continue;
+    }
+    if (data.length > limits.maxImageBytes) {
+      rejected.push({ name, reason: `${formatBytes(data.length)} exceeds the ${formatBytes(limits.maxImageBytes)} limit per image` });
+      continue;
+    }
+    if (totalBytes + data.length > limits.maxTotalBytes) {
+      rejected.push({ name, reason: `total image size would exceed the ${formatBytes(limits.maxTotalBytes)} limit` });
+      continue;
+    }
+    totalBytes += data.length;
+    accepted.push({ name, data: image.data, size: data.length, ...info });
+  }
+
+  return { accepted, rejected };
+}
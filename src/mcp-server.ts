@@ -15,6 +15,13 @@
  *     }
  *   }
  * }
+ *
+ * 远程开发中转（插件与 Server 不在同一台机器时，在 Server 所在机器上运行）:
+ *   node dist/mcp-server.js relay [--host 127.0.0.1] [--port 61920] [--token <token>]
+ *
+ * 终端客户端（没有图形界面的 SSH 会话中回复反馈，参见 src/cli.ts）:
+ *   node dist/mcp-server.js reply [--message <text>] [--file <path>] [--image <path>] [--wait]
+ *   node dist/mcp-server.js watch
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -23,8 +30,39 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
 import * as http from 'http';
+import * as net from 'net';
 import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { FormField, parseFormFields, validateFormValues } from './form-fields';
+import { collectFileContents, getFileContentLimits } from './file-contents';
+import { checkImages, getImageLimits, ImageLimits, RejectedImage, SubmittedImage } from './images';
+import { EditorContextItem, formatContextItem } from './editor-context';
+import {
+  TOKEN_HEADER,
+  findServerEntry,
+  generateToken,
+  getWorkspaceSocketPath,
+  normalizeWorkspacePath,
+  readServerEntries,
+  removeServerEntry,
+  tokensEqual,
+  writeServerEntry,
+} from './server-registry';
+import { runRelay } from './relay';
+import { runCli } from './cli';
+import {
+  WebhookConfig,
+  buildReplyUrl,
+  buildWebhookPayload,
+  getWebhookConfig,
+  renderReplyPage,
+  sendWebhook,
+  verifyReply,
+} from './webhook';
+import { openInBrowser, readBrowserAsset, renderBrowserPage } from './browser-ui';
 
 // 调试日志输出到 stderr（不影响 stdio 通信）
 function debugLog(message: string) {
@@ -41,22 +79,134 @@ interface FeedbackRequest {
   projectDir: string;
   timeout: number;
   timestamp: number;
+  // 请求类型：默认为 feedback（自由回复），form 为 ask_user 表单，approval 为 request_approval 审批
+  kind?: 'feedback' | 'form' | 'approval';
+  options?: string[];
+  multiSelect?: boolean;
+  fields?: FormField[];
+  actionType?: string;
+  details?: string;
+  changes?: Array<{ path: string; diff?: string }>;
+  // 附加文件内容是否默认内联（MCP_FEEDBACK_INLINE_FILES），用户提交时可以单独切换
+  inlineFiles?: boolean;
+  // 添加图片时使用的限制（界面缩小超过最大边长的图片，命令行在提交前检查）
+  imageLimits?: ImageLimits;
 }
 
+/**
+ * 审批结果
+ */
+type ApprovalDecision = 'approved' | 'rejected' | 'approved_with_edits';
+const APPROVAL_DECISIONS: ApprovalDecision[] = ['approved', 'rejected', 'approved_with_edits'];
+
 /**
  * 反馈响应接口
  */
 interface FeedbackResponse {
   interactive_feedback: string;
-  images: Array<{
-    name: string;
-    data: string;
-    size: number;
-  }>;
+  // 提交后由 Server 识别格式和尺寸（mimeType、width、height）
+  images: SubmittedImage[];
   attachedFiles: string[];
   project_directory: string;
+  selectedOptions?: string[];
+  formValues?: Record<string, unknown>;
+  approvalDecision?: ApprovalDecision;
+  approvalEdits?: string;
+  diffComments?: Array<{ path: string; hunk: string; comment: string }>;
+  // 是否内联附加文件内容（未指定时使用 MCP_FEEDBACK_INLINE_FILES）
+  inlineFileContents?: boolean;
+  contextItems?: EditorContextItem[];
+  // 被 Server 拒绝的图片（格式不支持或超过大小限制），告知 AI
+  rejectedImages?: RejectedImage[];
 }
 
+/**
+ * 请求未得到反馈时的结束原因
+ * timeout: 超时；dismissed: 用户跳过了这个请求；ended: 用户结束了对话；cancelled: AI 端取消了工具调用
+ */
+type UnansweredStatus = 'timeout' | 'dismissed' | 'ended' | 'cancelled';
+const CANCEL_REASONS: UnansweredStatus[] = ['dismissed', 'ended'];
+
+/**
+ * 等待反馈的结果
+ */
+type WaitOutcome =
+  | { status: 'submitted'; feedback: FeedbackResponse }
+  | { status: UnansweredStatus };
+
+/**
+ * MCP 工具返回的内容项
+ */
+type ContentItem = {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  resource?: { uri: string; mimeType: string; text: string };
+};
+
+/**
+ * MCP 工具返回结果
+ */
+type ToolResult = {
+  content: ContentItem[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * 结构化输出（interactive_feedback 的 structured_output 参数或 MCP_FEEDBACK_STRUCTURED_OUTPUT）
+ */
+type StructuredFeedback = {
+  status: 'submitted' | UnansweredStatus;
+  feedback: string;
+  attachments: Array<Record<string, unknown> & { type: string }>;
+  selectedOptions: string[];
+  reviewComments: Array<{ path: string; hunk: string; comment: string }>;
+  elapsedMs: number;
+  round: number;
+  message?: string;
+  notes?: string[];
+};
+
+// 设置 MCP_FEEDBACK_STRUCTURED_OUTPUT 时声明的 outputSchema（声明后每次调用都必须返回 structuredContent）
+const FEEDBACK_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['submitted', 'timeout', 'dismissed', 'ended', 'cancelled'] },
+    feedback: { type: 'string', description: 'Text typed by the user (empty when not submitted)' },
+    attachments: {
+      type: 'array',
+      description: 'Attached files ({ type: "file", path }), images ({ type: "image", name, mimeType, size, width, height }; the image data follows as image content) and editor context ({ type: "selection" | "diagnostics", path, ... })',
+      items: {
+        type: 'object',
+        properties: { type: { type: 'string', enum: ['file', 'image', 'selection', 'diagnostics'] } },
+        required: ['type'],
+      },
+    },
+    selectedOptions: { type: 'array', items: { type: 'string' } },
+    reviewComments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { path: { type: 'string' }, hunk: { type: 'string' }, comment: { type: 'string' } },
+        required: ['path', 'hunk', 'comment'],
+      },
+    },
+    elapsedMs: { type: 'number', description: 'Time between the request and the answer' },
+    round: { type: 'number', description: 'Feedback round in this conversation, starting at 1' },
+    message: { type: 'string', description: 'What to do next when no feedback was submitted' },
+    notes: { type: 'array', items: { type: 'string' }, description: 'Notes about inlined, truncated or skipped files and rejected images' },
+  },
+  required: ['status', 'feedback', 'attachments', 'selectedOptions', 'reviewComments', 'elapsedMs', 'round'],
+};
+
+// 请求创建后等待插件响应的时间（毫秒），超过后自动打开浏览器界面（MCP_FEEDBACK_BROWSER_UI=open）
+const BROWSER_OPEN_DELAY = 3000;
+
+// 用户正在输入时（心跳），保证请求至少还能等待的时间（秒）
+const KEEPALIVE_WINDOW = 120;
+
 /**
  * MCP Feedback Server
  */
@@ -64,16 +214,39 @@ class McpFeedbackServer {
   private server: Server;
   private httpServer: http.Server | null = null;
   private port: number;
+
+  // 通信方式：tcp（默认，监听 127.0.0.1 端口）或 socket（按工作区的 Unix socket / 命名管道，不打开 TCP 端口）
+  private readonly transport: 'tcp' | 'socket' = process.env.MCP_FEEDBACK_TRANSPORT === 'socket' ? 'socket' : 'tcp';
+  private socketServer: http.Server | null = null;
+  private socketPath: string | null = null;
   
-  // 待处理的反馈请求
+  // 待处理的反馈请求（支持多个并发请求，例如并行的 agent / subagent）
   private pendingRequests: Map<string, {
-    resolve: (value: FeedbackResponse | null) => void;
-    reject: (error: Error) => void;
+    request: FeedbackRequest;
+    resolve: (outcome: WaitOutcome) => void;
     timeout: NodeJS.Timeout;
+    expire: () => void;
+    maxDeadline: number; // 心跳最多延长到的时间
   }> = new Map();
+  // 最近结束的请求及结束原因（轮询的插件据此区分超时和在其他地方回复）
+  private endedRequests: Map<string, WaitOutcome['status']> = new Map();
+
+  // 订阅了事件推送（SSE）的插件连接（包括浏览器页面）
+  private eventClients: Set<http.ServerResponse> = new Set();
+  private browserEventClients: Set<http.ServerResponse> = new Set();
+  private eventPingTimer: NodeJS.Timeout | null = null;
+
+  // 浏览器界面：serve 在 / 提供页面，open 还会在没有插件响应时自动打开浏览器（只支持 TCP）
+  private readonly browserUi: 'off' | 'serve' | 'open' =
+    process.env.MCP_FEEDBACK_BROWSER_UI === 'open' ? 'open'
+      : process.env.MCP_FEEDBACK_BROWSER_UI === 'serve' ? 'serve' : 'off';
+  // 最近一次收到插件请求的时间（用于判断是否需要打开浏览器）
+  private lastExtensionSeen = 0;
 
-  // 当前反馈请求
-  private currentRequest: FeedbackRequest | null = null;
+  // 结构化输出：所有 interactive_feedback 调用都返回 structuredContent 并声明 outputSchema
+  private readonly structuredOutput = process.env.MCP_FEEDBACK_STRUCTURED_OUTPUT === 'true';
+  // 本次对话的反馈轮数（用户结束对话后重新计数）
+  private round = 0;
 
   // 所属工作区（只在 AI 调用 feedback 时设置）
   // 只有来自同一工作区的轮询才会更新活动时间
@@ -82,6 +255,13 @@ class McpFeedbackServer {
   // Server 启动时间
   private readonly startTime: number = Date.now();
 
+  // 访问 HTTP API 需要的 token（启动时生成，写入只有当前用户可读的登记文件）
+  private readonly token: string = generateToken();
+
+  // Webhook 通知（MCP_FEEDBACK_WEBHOOK_URL）；回复链接的签名密钥默认使用访问 token
+  private readonly webhook: WebhookConfig | null = getWebhookConfig();
+  private readonly replySecret: string = process.env.MCP_FEEDBACK_REPLY_SECRET || this.token;
+
   constructor(port: number = 8766) {
     this.port = port;
     
@@ -125,9 +305,19 @@ class McpFeedbackServer {
     project_directory: 【必填】项目目录的绝对路径，用于正确匹配项目窗口
     summary: AI 工作摘要，供用户查看（支持 Markdown）
     timeout: 等待用户反馈的超时时间（秒），默认 300 秒（5 分钟）
+    options: 可选，供用户点击选择的选项列表（例如 ["方案 A", "方案 B", "方案 C"]）
+    multi_select: 可选，是否允许多选，默认 false（单选，点击即提交）
+    changes: 可选，本轮修改的文件，供用户在侧边栏直接审阅 diff。
+        每项为文件路径，或 { path, diff }（diff 为 unified diff；省略时使用 git diff HEAD）
 
 返回：
-    用户反馈内容（文字/图片/文件路径），或 timeout/cancelled 状态`,
+    用户反馈内容（文字/图片/文件路径）
+    未得到反馈时第一行为 FEEDBACK_STATUS: timeout | dismissed | ended | cancelled
+    （ended 表示用户结束了对话，此时不要再调用此工具）
+    提供 options 时，用户的选择会以 "=== Selected Options ===" 块中的 JSON 返回
+    提供 changes 时，用户对 hunk 的评论会以 "=== Review Comments ===" 块中的 JSON 返回
+    structured_output 为 true 时改为返回 JSON 对象（同时作为 structuredContent）：
+        { status, feedback, attachments, selectedOptions, reviewComments, elapsedMs, round, message? }`,
             inputSchema: {
               type: 'object',
               properties: {
@@ -145,9 +335,163 @@ class McpFeedbackServer {
                   description: 'Timeout in seconds for waiting user feedback (default: 300 seconds = 5 minutes)',
                   default: 300,
                 },
+                options: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Optional quick-reply choices rendered as buttons (e.g. ["Approach A", "Approach B"]). The selection is returned as JSON in a "=== Selected Options ===" block',
+                },
+                multi_select: {
+                  type: 'boolean',
+                  description: 'Allow selecting multiple options (default: false, a single click submits)',
+                  default: false,
+                },
+                structured_output: {
+                  type: 'boolean',
+                  description: 'Return the result as a JSON object (also as MCP structuredContent) with status, feedback, attachments, selectedOptions, reviewComments, elapsedMs and round instead of text blocks',
+                  default: false,
+                },
+                changes: {
+                  type: 'array',
+                  description: 'Optional files changed in this round, shown as reviewable diffs. Each item is a file path (diffed against git HEAD) or { path, diff } with a unified diff. Per-hunk comments are returned in a "=== Review Comments ===" block',
+                  items: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          path: { type: 'string' },
+                          diff: { type: 'string', description: 'Unified diff of this file' },
+                        },
+                        required: ['path'],
+                      },
+                    ],
+                  },
+                },
               },
               required: ['project_directory'],
             },
+            ...(this.structuredOutput ? { outputSchema: FEEDBACK_OUTPUT_SCHEMA } : {}),
+          },
+          {
+            name: 'ask_user',
+            description: `结构化表单提问工具。
+
+当你需要用户提供具体的值（版本号、是/否确认、文件路径、范围内的数字、从几个固定值中选择等）时使用此工具，
+而不是让用户在自由文本中回答。侧边栏会渲染为表单，提交前会校验必填项、类型、范围和正则。
+
+参数：
+    project_directory: 【必填】项目目录的绝对路径，用于正确匹配项目窗口
+    question: 向用户说明需要填写什么（支持 Markdown）
+    fields: 【必填】字段列表，每个字段包含：
+        name: 字段名（返回 JSON 的 key）
+        type: string | boolean | enum | number | path
+        label / description: 显示给用户的名称和说明
+        required: 是否必填
+        default: 默认值
+        options: enum 类型的可选值
+        min / max: number 类型的范围
+        pattern: string / path 类型的正则校验
+    timeout: 等待用户填写的超时时间（秒），默认 300 秒（5 分钟）
+
+返回：
+    "=== User Answers ===" 块中的 JSON 对象（字段名 -> 值，未填写为 null），
+    以及用户可选填写的补充说明；未得到回答时第一行为 FEEDBACK_STATUS（同 interactive_feedback）`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project_directory: {
+                  type: 'string',
+                  description: 'Project directory absolute path (REQUIRED - must be the absolute path of current workspace for correct project matching)',
+                },
+                question: {
+                  type: 'string',
+                  description: 'What you are asking the user for (supports Markdown)',
+                },
+                fields: {
+                  type: 'array',
+                  description: 'Form fields to render',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', description: 'Key in the returned JSON' },
+                      type: { type: 'string', enum: ['string', 'boolean', 'enum', 'number', 'path'] },
+                      label: { type: 'string' },
+                      description: { type: 'string' },
+                      required: { type: 'boolean' },
+                      default: { type: ['string', 'number', 'boolean'] },
+                      options: { type: 'array', items: { type: 'string' }, description: 'Choices for enum fields' },
+                      min: { type: 'number' },
+                      max: { type: 'number' },
+                      pattern: { type: 'string', description: 'Regular expression for string/path fields' },
+                    },
+                    required: ['name', 'type'],
+                  },
+                },
+                timeout: {
+                  type: 'number',
+                  description: 'Timeout in seconds for waiting user answers (default: 300 seconds = 5 minutes)',
+                  default: 300,
+                },
+              },
+              required: ['project_directory', 'fields'],
+            },
+          },
+          {
+            name: 'request_approval',
+            description: `危险操作审批工具。
+
+在执行破坏性或不可逆的操作之前（运行危险命令、删除文件、执行数据库迁移、强制推送等），
+必须先调用此工具请求用户批准。侧边栏会以警告样式显示，用户可以批准、拒绝或修改后批准。
+
+参数：
+    project_directory: 【必填】项目目录的绝对路径，用于正确匹配项目窗口
+    action: 【必填】要执行的操作说明（支持 Markdown）
+    action_type: 操作类型：command | delete | migration | other
+    details: 操作的具体内容（要运行的命令、要删除的文件列表等），用户可以在批准前修改
+    timeout: 等待用户审批的超时时间（秒），默认 300 秒（5 分钟）
+
+返回：
+    第一行为 "APPROVAL_STATUS: <status>"，status 为以下之一：
+        approved - 批准，按原样执行
+        approved_with_edits - 修改后批准，必须使用返回 JSON 中的 edits 代替原内容
+        rejected - 拒绝，不得执行
+        timeout - 超时未做决定，不得执行
+        dismissed - 用户跳过了此请求，不得执行
+        ended - 用户结束了对话，不得执行，也不要再调用反馈工具
+        cancelled - 请求被取消，不得执行
+    随后是包含 status / comment / edits 的 JSON`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project_directory: {
+                  type: 'string',
+                  description: 'Project directory absolute path (REQUIRED - must be the absolute path of current workspace for correct project matching)',
+                },
+                action: {
+                  type: 'string',
+                  description: 'Description of the action that needs approval (supports Markdown)',
+                },
+                action_type: {
+                  type: 'string',
+                  enum: ['command', 'delete', 'migration', 'other'],
+                  description: 'Kind of action',
+                  default: 'other',
+                },
+                details: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'array', items: { type: 'string' } },
+                  ],
+                  description: 'Exact command / file list / migration the user can review and edit before approving',
+                },
+                timeout: {
+                  type: 'number',
+                  description: 'Timeout in seconds for waiting the decision (default: 300 seconds = 5 minutes)',
+                  default: 300,
+                },
+              },
+              required: ['project_directory', 'action'],
+            },
           },
           {
             name: 'get_system_info',
@@ -162,13 +506,17 @@ class McpFeedbackServer {
     });
 
     // 处理工具调用
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
         switch (name) {
           case 'interactive_feedback':
-            return await this.handleInteractiveFeedback(args);
+            return await this.handleInteractiveFeedback(args, extra.signal);
+          case 'ask_user':
+            return await this.handleAskUser(args, extra.signal);
+          case 'request_approval':
+            return await this.handleRequestApproval(args, extra.signal);
           case 'get_system_info':
             return this.handleGetSystemInfo();
           default:
@@ -188,156 +536,763 @@ class McpFeedbackServer {
   }
 
   /**
-   * 处理交互式反馈请求
+   * 处理交互式反馈请求
+   */
+  private async handleInteractiveFeedback(args: Record<string, unknown> | undefined, signal?: AbortSignal): Promise<ToolResult> {
+    // 参数校验：project_directory 是必填项
+    if (!args?.project_directory) {
+      return this.missingProjectDirResult('interactive_feedback', args);
+    }
+
+    const projectDir = args.project_directory as string;
+    // summary 支持别名 message
+    const summary = (args?.summary as string) || (args?.message as string) || '我已完成您的请求。';
+    const timeout = this.resolveTimeout(args);
+    const options = Array.isArray(args.options)
+      ? args.options.filter((o): o is string => typeof o === 'string' && o.trim() !== '')
+      : [];
+    const multiSelect = args.multi_select === true;
+    const changes = this.parseChanges(args.changes);
+    const structured = this.structuredOutput || args.structured_output === true;
+
+    const feedbackRequest = this.createRequest(projectDir, summary, timeout, {
+      ...(options.length > 0 ? { options, multiSelect } : {}),
+      ...(changes.length > 0 ? { changes } : {}),
+    });
+    const round = ++this.round;
+
+    try {
+      // 等待用户反馈
+      const outcome = await this.waitForFeedback(feedbackRequest, timeout * 1000, signal);
+
+      if (structured) {
+        return await this.structuredFeedbackResult(outcome, options, Date.now() - feedbackRequest.timestamp, round);
+      }
+      if (outcome.status !== 'submitted') {
+        return this.unansweredResult(outcome.status);
+      }
+      const result = outcome.feedback;
+
+      debugLog(`Received feedback: ${result.interactive_feedback?.substring(0, 100)}...`);
+
+      // 添加选项结果（JSON，便于 AI 解析）
+      const blocks: string[] = [];
+      if (options.length > 0) {
+        const selected = (result.selectedOptions || []).filter(o => options.includes(o));
+        blocks.push(`=== Selected Options ===\n${JSON.stringify({ selected_options: selected })}`);
+      }
+
+      // 添加 diff 评论
+      const comments = (result.diffComments || []).filter(c => c.comment?.trim());
+      if (comments.length > 0) {
+        blocks.push(`=== Review Comments ===\n${JSON.stringify(comments, null, 2)}`);
+      }
+
+      return { content: await this.buildFeedbackContent(result, blocks) };
+    } catch (error) {
+      // 声明了 outputSchema 时，没有 structuredContent 的结果必须标记为错误
+      return structured ? { ...this.errorResult(error), isError: true } : this.errorResult(error);
+    }
+  }
+
+  /**
+   * 结构化输出：JSON 对象作为 structuredContent，同时以文本返回（兼容不支持 structuredContent 的客户端），
+   * 内联的文件内容和图片仍作为 resource / image 内容返回
+   */
+  private async structuredFeedbackResult(outcome: WaitOutcome, options: string[], elapsedMs: number, round: number): Promise<ToolResult> {
+    const data: StructuredFeedback = {
+      status: outcome.status,
+      feedback: '',
+      attachments: [],
+      selectedOptions: [],
+      reviewComments: [],
+      elapsedMs,
+      round,
+    };
+    const content: ContentItem[] = [];
+
+    if (outcome.status !== 'submitted') {
+      debugLog(`Feedback request ended without feedback: ${outcome.status}`);
+      data.message = this.unansweredMessage(outcome.status);
+    } else {
+      const result = outcome.feedback;
+      data.feedback = result.interactive_feedback || '';
+      data.attachments = [
+        ...(result.attachedFiles || []).map(filePath => ({ type: 'file', path: filePath })),
+        ...(result.images || []).map(({ name, mimeType, size, width, height }) => ({ type: 'image', name, mimeType, size, width, height })),
+        ...(result.contextItems || []).map(({ kind, ...item }) => ({ type: kind, ...item })),
+      ];
+      data.selectedOptions = (result.selectedOptions || []).filter(o => options.includes(o));
+      data.reviewComments = (result.diffComments || []).filter(c => c.comment?.trim());
+
+      const files = await this.buildFileResources(result);
+      const notes = [
+        ...files.notes,
+        ...(result.rejectedImages || []).map(img => `Image ${img.name} was not sent: ${img.reason}`),
+      ];
+      if (notes.length > 0) {
+        data.notes = notes;
+      }
+      content.push(...files.items, ...this.buildImageContent(result));
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }, ...content],
+      structuredContent: data,
+    };
+  }
+
+  /**
+   * 解析 changes 参数：每项为文件路径或 { path, diff }
+   */
+  private parseChanges(input: unknown): Array<{ path: string; diff?: string }> {
+    if (!Array.isArray(input)) {
+      return [];
+    }
+    const changes: Array<{ path: string; diff?: string }> = [];
+    for (const item of input) {
+      if (typeof item === 'string' && item.trim()) {
+        changes.push({ path: item });
+      } else if (item && typeof item === 'object' && typeof item.path === 'string') {
+        changes.push(typeof item.diff === 'string' ? { path: item.path, diff: item.diff } : { path: item.path });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * 处理结构化表单提问（ask_user）
+   */
+  private async handleAskUser(args: Record<string, unknown> | undefined, signal?: AbortSignal): Promise<ToolResult> {
+    if (!args?.project_directory) {
+      return this.missingProjectDirResult('ask_user', args);
+    }
+
+    const parsed = parseFormFields(args.fields);
+    if ('error' in parsed) {
+      return {
+        content: [{
+          type: 'text',
+          text: `参数错误：${parsed.error}。请查看 ask_user 工具描述后使用正确参数重新调用。`,
+        }],
+        isError: true,
+      };
+    }
+
+    const projectDir = args.project_directory as string;
+    const question = (args.question as string) || (args.summary as string) || '请填写以下信息。';
+    const timeout = this.resolveTimeout(args);
+
+    const formRequest = this.createRequest(projectDir, question, timeout, {
+      kind: 'form',
+      fields: parsed.fields,
+    });
+
+    try {
+      const outcome = await this.waitForFeedback(formRequest, timeout * 1000, signal);
+
+      if (outcome.status !== 'submitted') {
+        return this.unansweredResult(outcome.status);
+      }
+      const result = outcome.feedback;
+
+      // 只返回定义过的字段，未填写的字段为 null
+      const answers: Record<string, unknown> = {};
+      for (const field of parsed.fields) {
+        answers[field.name] = result.formValues?.[field.name] ?? null;
+      }
+      debugLog(`Received form answers: ${JSON.stringify(answers).substring(0, 100)}...`);
+
+      return {
+        content: await this.buildFeedbackContent(result, [`=== User Answers ===\n${JSON.stringify(answers, null, 2)}`]),
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * 处理危险操作审批请求（request_approval）
+   * 返回明确的状态，AI 无需解析自由文本
+   */
+  private async handleRequestApproval(args: Record<string, unknown> | undefined, signal?: AbortSignal): Promise<ToolResult> {
+    if (!args?.project_directory) {
+      return this.missingProjectDirResult('request_approval', args);
+    }
+    if (!args.action || typeof args.action !== 'string') {
+      return {
+        content: [{
+          type: 'text',
+          text: '参数错误：缺少必填参数 action。请查看 request_approval 工具描述后使用正确参数重新调用。',
+        }],
+        isError: true,
+      };
+    }
+
+    const projectDir = args.project_directory as string;
+    const timeout = this.resolveTimeout(args);
+    const details = Array.isArray(args.details)
+      ? args.details.map(String).join('\n')
+      : (typeof args.details === 'string' ? args.details : '');
+
+    const approvalRequest = this.createRequest(projectDir, args.action, timeout, {
+      kind: 'approval',
+      actionType: typeof args.action_type === 'string' ? args.action_type : 'other',
+      details,
+    });
+
+    const approvalResult = (result: Record<string, unknown>, instruction: string): ToolResult => ({
+      content: [{
+        type: 'text',
+        text: `APPROVAL_STATUS: ${result.status}\n\n=== Approval Result ===\n${JSON.stringify(result, null, 2)}\n\n${instruction}`,
+      }],
+    });
+
+    try {
+      const outcome = await this.waitForFeedback(approvalRequest, timeout * 1000, signal);
+
+      if (outcome.status !== 'submitted') {
+        debugLog(`Approval request ended without decision: ${outcome.status}`);
+        return approvalResult({ status: outcome.status }, {
+          timeout: 'No decision was made. Do NOT perform the action; ask again with request_approval if it is still needed.',
+          dismissed: 'The user dismissed this approval request. Do NOT perform the action and do not ask for it again unless the user brings it up.',
+          ended: 'The user ended the session. Do NOT perform the action and stop calling feedback tools.',
+          cancelled: 'The request was cancelled. Do NOT perform the action.',
+        }[outcome.status]);
+      }
+      const result = outcome.feedback;
+
+      const status = result.approvalDecision as ApprovalDecision;
+      debugLog(`Received approval decision: ${status}`);
+      const response: Record<string, unknown> = {
+        status,
+        comment: result.interactive_feedback || null,
+      };
+      if (status === 'approved_with_edits') {
+        response.edits = result.approvalEdits ?? details;
+      }
+
+      const instruction = {
+        approved: 'The user approved the action. You may proceed exactly as described.',
+        approved_with_edits: 'The user approved the action with edits. Proceed using the edited version in "edits" instead of the original.',
+        rejected: 'The user rejected the action. Do NOT perform it.',
+      }[status];
+
+      return approvalResult(response, instruction);
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * 校验提交内容是否符合请求类型的要求
+   */
+  private validateSubmission(request: FeedbackRequest, feedback: FeedbackResponse): string[] {
+    switch (request.kind) {
+      case 'form':
+        return validateFormValues(request.fields || [], feedback.formValues || {});
+      case 'approval':
+        return feedback.approvalDecision && APPROVAL_DECISIONS.includes(feedback.approvalDecision)
+          ? []
+          : [`approvalDecision must be one of: ${APPROVAL_DECISIONS.join(', ')}`];
+      default:
+        return !request.multiSelect && (feedback.selectedOptions?.length || 0) > 1
+          ? ['Only one option can be selected']
+          : [];
+    }
+  }
+
+  /**
+   * 提交反馈，结束等待（插件、浏览器界面和回复链接共用）
+   */
+  private submitFeedback(
+    requestId: string,
+    feedback: FeedbackResponse
+  ): { status: number; error?: string; rejectedImages?: RejectedImage[] } {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      debugLog(`Request ${requestId} not found`);
+      return { status: 404, error: 'Request not found' };
+    }
+    // 表单/审批请求和单选选项：Server 端再次校验，不通过时保持请求等待
+    const errors = this.validateSubmission(pending.request, feedback);
+    if (errors.length > 0) {
+      debugLog(`Invalid submission for request ${requestId}: ${errors.join('; ')}`);
+      return { status: 400, error: errors.join('; ') };
+    }
+    // 图片：按内容识别格式，格式不支持或超过大小限制的图片不发送给 AI，并告知用户
+    const { accepted, rejected } = checkImages(Array.isArray(feedback.images) ? feedback.images : [], getImageLimits());
+    for (const image of rejected) {
+      debugLog(`Image ${image.name} rejected: ${image.reason}`);
+    }
+    feedback = { ...feedback, images: accepted, ...(rejected.length > 0 ? { rejectedImages: rejected } : {}) };
+    clearTimeout(pending.timeout);
+    pending.resolve({ status: 'submitted', feedback });
+    this.pendingRequests.delete(requestId);
+    this.recordEnded(requestId, 'submitted');
+    this.broadcastEvent('request-completed', { requestId });
+    return rejected.length > 0 ? { status: 200, rejectedImages: rejected } : { status: 200 };
+  }
+
+  /**
+   * 缺少 project_directory 时的错误结果
+   */
+  private missingProjectDirResult(toolName: string, args: Record<string, unknown> | undefined): ToolResult {
+    const receivedParams = JSON.stringify(args || {});
+    return {
+      content: [{
+        type: 'text',
+        text: `参数错误：缺少必填参数 project_directory。请查看 ${toolName} 工具描述后使用正确参数重新调用。\n\n你传入的参数：${receivedParams}`,
+      }],
+      isError: true,
+    };
+  }
+
+  /**
+   * 获取超时时间（秒）
+   * 优先级：环境变量 > 工具参数 > 默认值（300秒）
+   * 这样用户配置的环境变量永远生效，不会被 AI 覆盖
+   */
+  private resolveTimeout(args: Record<string, unknown>): number {
+    const envTimeout = process.env.MCP_FEEDBACK_TIMEOUT ? parseInt(process.env.MCP_FEEDBACK_TIMEOUT, 10) : null;
+    return envTimeout || (args.timeout as number) || 300;
+  }
+
+  /**
+   * 用户正在输入时最多等待的时间（秒），默认 3600 秒；不小于请求本身的超时时间
+   */
+  private resolveMaxTimeout(): number {
+    const maxTimeout = parseInt(process.env.MCP_FEEDBACK_MAX_TIMEOUT || '', 10);
+    return Number.isFinite(maxTimeout) && maxTimeout >= 0 ? maxTimeout : 3600;
+  }
+
+  /**
+   * 创建反馈请求
+   */
+  private createRequest(
+    projectDir: string,
+    summary: string,
+    timeout: number,
+    extra: Partial<FeedbackRequest>
+  ): FeedbackRequest {
+    const requestId = this.generateRequestId();
+    
+    // AI 调用 feedback 时设置 ownerWorkspace（这是唯一正确的时机）
+    const ownerWorkspace = normalizeWorkspacePath(projectDir);
+    if (ownerWorkspace !== this.ownerWorkspace) {
+      this.ownerWorkspace = ownerWorkspace;
+      if (this.transport === 'socket') {
+        // socket 路径由工作区决定，所属工作区变化时重新监听
+        this.listenOnWorkspaceSocket(projectDir).catch(error => {
+          debugLog(`Failed to listen on workspace socket: ${error}`);
+        });
+      } else {
+        this.writeRegistryEntry();
+      }
+    }
+    debugLog(`Owner workspace set to: ${this.ownerWorkspace}`);
+
+    debugLog(`Feedback request created: ${requestId}`);
+    debugLog(`Summary: ${summary}`);
+    debugLog(`Project: ${projectDir}`);
+    debugLog(`Timeout: ${timeout}s`);
+    debugLog(`Waiting for VS Code extension to collect feedback...`);
+
+    return {
+      id: requestId,
+      summary,
+      projectDir,
+      timeout,
+      timestamp: Date.now(),
+      inlineFiles: process.env.MCP_FEEDBACK_INLINE_FILES === 'true',
+      imageLimits: getImageLimits(),
+      ...extra,
+    };
+  }
+
+  /**
+   * 请求未得到反馈（超时/跳过/结束对话/取消）时返回的结果
+   * 第一行为 FEEDBACK_STATUS，便于 AI 区分是否应该继续调用
+   */
+  private unansweredResult(status: UnansweredStatus): ToolResult {
+    debugLog(`Feedback request ended without feedback: ${status}`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `FEEDBACK_STATUS: ${status}\n\n${this.unansweredMessage(status)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 未得到反馈时告诉 AI 接下来应该怎么做
+   */
+  private unansweredMessage(status: UnansweredStatus): string {
+    switch (status) {
+      case 'timeout':
+        // MCP_AUTO_RETRY 环境变量控制是否显示重试指示，默认 true
+        return process.env.MCP_AUTO_RETRY !== 'false'
+          ? 'Timed out waiting for user feedback. 【必须立即重新调用此工具继续等待用户反馈】'
+          : 'Timed out waiting for user feedback.';
+      case 'dismissed':
+        return 'The user dismissed this request without replying. Do not ask the same question again; continue with your best judgement and call the tool again when you have new results.';
+      case 'ended':
+        return 'The user ended the session. 【对话已结束：不要再调用任何反馈工具，直接结束当前任务】';
+      default:
+        return 'The feedback request was cancelled by the client.';
+    }
+  }
+
+  /**
+   * 收集反馈出错时返回的结果
+   */
+  private errorResult(error: unknown): ToolResult {
+    debugLog(`Error collecting feedback: ${error}`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error collecting feedback: ${error}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 将用户反馈（文字/附加文件/图片）转换为 MCP 内容
+   * blocks 为放在文字反馈前面的结构化内容（例如选项、表单结果）
+   */
+  private async buildFeedbackContent(result: FeedbackResponse, blocks: string[]): Promise<ContentItem[]> {
+    const contentItems: ContentItem[] = [];
+
+    // 构建反馈文本
+    const sections = [...blocks];
+    
+    // 添加文字反馈
+    if (result.interactive_feedback) {
+      sections.push(`=== User Feedback ===\n${result.interactive_feedback}`);
+    }
+
+    // 添加编辑器上下文
+    if (result.contextItems && result.contextItems.length > 0) {
+      sections.push(`=== Editor Context ===\n${result.contextItems.map(item => formatContextItem(item)).join('\n\n')}`);
+    }
+
+    // 添加附加文件路径
+    const files = await this.buildFileResources(result);
+    if (result.attachedFiles && result.attachedFiles.length > 0) {
+      let filesText = `=== Attached Files ===\n`;
+      for (const filePath of result.attachedFiles) {
+        filesText += `${filePath}\n`;
+      }
+      filesText += files.inlined
+        ? files.notes.map(note => `\n${note}`).join('')
+        : `\nPlease read the above files to understand the context.`;
+      sections.push(filesText);
+    }
+
+    // 被拒绝的图片（AI 收不到这些图片，需要时可以请用户重新提供）
+    if (result.rejectedImages && result.rejectedImages.length > 0) {
+      sections.push(`=== Rejected Images ===\n${result.rejectedImages.map(img => `${img.name}: ${img.reason}`).join('\n')}`);
+    }
+
+    if (sections.length > 0) {
+      contentItems.push({
+        type: 'text',
+        text: sections.join('\n\n'),
+      });
+    }
+    contentItems.push(...files.items);
+
+    // 添加图片
+    contentItems.push(...this.buildImageContent(result));
+
+    if (contentItems.length === 0) {
+      contentItems.push({
+        type: 'text',
+        text: 'User did not provide any feedback.',
+      });
+    }
+
+    return contentItems;
+  }
+
+  /**
+   * 内联附加文件内容（per-submit 开关优先，其次环境变量，默认关闭）
+   * 返回 resource 内容，以及内联、截断和跳过文件的说明
+   */
+  private async buildFileResources(result: FeedbackResponse): Promise<{ inlined: boolean; items: ContentItem[]; notes: string[] }> {
+    const inline = result.inlineFileContents ?? process.env.MCP_FEEDBACK_INLINE_FILES === 'true';
+    if (!result.attachedFiles || result.attachedFiles.length === 0 || !inline) {
+      return { inlined: false, items: [], notes: [] };
+    }
+
+    debugLog(`Processing ${result.attachedFiles.length} attached files`);
+    const limits = getFileContentLimits();
+    const contents = await collectFileContents(result.attachedFiles, limits);
+    const items: ContentItem[] = contents.files.map(file => ({
+      type: 'resource',
+      resource: {
+        uri: pathToFileURL(path.resolve(file.path)).href,
+        mimeType: 'text/plain',
+        text: file.truncated
+          ? `${file.text}\n\n[... truncated: file exceeds ${limits.maxFileBytes} bytes or the total size limit ...]`
+          : file.text,
+      },
+    }));
+
+    const notes = [`The contents of ${contents.files.length} file(s) are included below as resources.`];
+    const truncated = contents.files.filter(f => f.truncated);
+    if (truncated.length > 0) {
+      notes.push(`Truncated (read the rest yourself if needed): ${truncated.map(f => f.path).join(', ')}`);
+    }
+    for (const skipped of contents.skipped) {
+      notes.push(`Skipped ${skipped.path}: ${skipped.reason}`);
+    }
+    if (contents.limitReached) {
+      notes.push(`Limit reached (${limits.maxFiles} files / ${limits.maxTotalBytes} bytes): remaining files were not included, read them yourself if needed.`);
+    }
+    return { inlined: true, items, notes };
+  }
+
+  /**
+   * 图片内容
+   */
+  private buildImageContent(result: FeedbackResponse): ContentItem[] {
+    if (!result.images || result.images.length === 0) {
+      return [];
+    }
+    debugLog(`Processing ${result.images.length} images`);
+    return result.images.map(img => ({
+      type: 'image',
+      data: img.data,
+      mimeType: img.mimeType || 'image/png',
+    }));
+  }
+
+  /**
+   * 等待用户反馈
+   * AI 端取消工具调用（signal）时结束等待并通知插件
+   */
+  private waitForFeedback(request: FeedbackRequest, timeoutMs: number, signal?: AbortSignal): Promise<WaitOutcome> {
+    return new Promise((resolve) => {
+      const expire = () => {
+        debugLog(`Request ${request.id} timed out`);
+        this.pendingRequests.delete(request.id);
+        this.recordEnded(request.id, 'timeout');
+        this.broadcastEvent('request-timed-out', { requestId: request.id });
+        resolve({ status: 'timeout' });
+      };
+
+      this.pendingRequests.set(request.id, {
+        request,
+        resolve,
+        timeout: setTimeout(expire, timeoutMs),
+        expire,
+        maxDeadline: request.timestamp + Math.max(this.resolveMaxTimeout() * 1000, timeoutMs),
+      });
+      this.broadcastEvent('request-created', { request, ownerWorkspace: this.ownerWorkspace });
+      if (this.browserUi === 'open') {
+        this.scheduleBrowserOpen(request.id);
+      }
+      if (this.webhook) {
+        this.scheduleWebhook(this.webhook, request);
+      }
+
+      signal?.addEventListener('abort', () => {
+        const pending = this.pendingRequests.get(request.id);
+        if (pending) {
+          debugLog(`Request ${request.id} cancelled by client`);
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(request.id);
+          this.recordEnded(request.id, 'cancelled');
+          this.broadcastEvent('request-cancelled', { requestId: request.id, reason: 'cancelled' });
+          resolve({ status: 'cancelled' });
+        }
+      });
+    });
+  }
+
+  /**
+   * 用户正在输入（心跳）：剩余时间不足 KEEPALIVE_WINDOW 秒时延长等待，最多延长到 MCP_FEEDBACK_MAX_TIMEOUT
+   * 延长后请求的 timeout 为新的总等待时间（秒），并推送给所有订阅者
+   * 返回新的 timeout，请求不存在时返回 null
    */
-  private async handleInteractiveFeedback(args: Record<string, unknown> | undefined): Promise<{
-    content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
-    isError?: boolean;
-  }> {
-    // 参数校验：project_directory 是必填项
-    if (!args?.project_directory) {
-      const receivedParams = JSON.stringify(args || {});
-      return {
-        content: [{
-          type: 'text',
-          text: `参数错误：缺少必填参数 project_directory。请查看 interactive_feedback 工具描述后使用正确参数重新调用。\n\n你传入的参数：${receivedParams}`,
-        }],
-        isError: true,
-      };
+  private extendRequest(requestId: string): number | null {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return null;
     }
+    const { request } = pending;
+    const deadline = request.timestamp + request.timeout * 1000;
+    const extended = Math.min(Math.max(deadline, Date.now() + KEEPALIVE_WINDOW * 1000), pending.maxDeadline);
+    if (extended > deadline) {
+      clearTimeout(pending.timeout);
+      pending.timeout = setTimeout(pending.expire, extended - Date.now());
+      request.timeout = Math.round((extended - request.timestamp) / 1000);
+      debugLog(`Request ${requestId} extended to ${request.timeout}s`);
+      this.broadcastEvent('request-extended', { requestId, timeout: request.timeout });
+    }
+    return request.timeout;
+  }
 
-    const projectDir = args.project_directory as string;
-    // summary 支持别名 message
-    const summary = (args?.summary as string) || (args?.message as string) || '我已完成您的请求。';
-    // 超时时间优先级：环境变量 > 工具参数 > 默认值（300秒）
-    // 这样用户配置的环境变量永远生效，不会被 AI 覆盖
-    const envTimeout = process.env.MCP_FEEDBACK_TIMEOUT ? parseInt(process.env.MCP_FEEDBACK_TIMEOUT, 10) : null;
-    const timeout = envTimeout || (args?.timeout as number) || 300;
-
-    const requestId = this.generateRequestId();
-    
-    // AI 调用 feedback 时设置 ownerWorkspace（这是唯一正确的时机）
-    const normalize = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
-    this.ownerWorkspace = normalize(projectDir);
-    debugLog(`Owner workspace set to: ${this.ownerWorkspace}`);
-    
-    // 创建反馈请求
-    this.currentRequest = {
-      id: requestId,
-      summary,
-      projectDir,
-      timeout,
-      timestamp: Date.now(),
-    };
-
-    debugLog(`Feedback request created: ${requestId}`);
-    debugLog(`Summary: ${summary}`);
-    debugLog(`Project: ${projectDir}`);
-    debugLog(`Timeout: ${timeout}s`);
-    debugLog(`Waiting for VS Code extension to collect feedback...`);
-
-    try {
-      // 等待用户反馈
-      const result = await this.waitForFeedback(requestId, timeout * 1000);
-
-      if (!result) {
-        debugLog('Feedback request timed out or cancelled');
-        // MCP_AUTO_RETRY 环境变量控制是否显示重试指示，默认 true
-        const autoRetry = process.env.MCP_AUTO_RETRY !== 'false';
-        const timeoutMessage = autoRetry
-          ? 'User cancelled the feedback or timeout. 【必须立即重新调用此工具继续等待用户反馈】'
-          : 'User cancelled the feedback or timeout.';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: timeoutMessage,
-            },
-          ],
-        };
+  /**
+   * 用户在侧边栏跳过请求或结束对话
+   * 结束对话时同时结束所有待处理的请求
+   * 返回被结束的请求 ID
+   */
+  private cancelRequest(requestId: string, reason: UnansweredStatus): string[] {
+    const ids = reason === 'ended' ? [...this.pendingRequests.keys()] : [requestId];
+    const cancelled: string[] = [];
+    for (const id of ids) {
+      const pending = this.pendingRequests.get(id);
+      if (!pending) {
+        continue;
       }
+      debugLog(`Request ${id} ${reason} by user`);
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(id);
+      this.recordEnded(id, reason);
+      pending.resolve({ status: reason });
+      this.broadcastEvent('request-cancelled', { requestId: id, reason });
+      cancelled.push(id);
+    }
+    if (reason === 'ended') {
+      this.round = 0;
+    }
+    return cancelled;
+  }
 
-      debugLog(`Received feedback: ${result.interactive_feedback?.substring(0, 100)}...`);
+  /**
+   * 记录请求的结束原因（只保留最近 50 个）
+   */
+  private recordEnded(requestId: string, status: WaitOutcome['status']) {
+    this.endedRequests.set(requestId, status);
+    if (this.endedRequests.size > 50) {
+      this.endedRequests.delete(this.endedRequests.keys().next().value!);
+    }
+  }
 
-      const contentItems: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
+  /**
+   * 向所有订阅的插件推送事件（SSE）
+   */
+  private broadcastEvent(event: string, data: unknown) {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.eventClients) {
+      client.write(message);
+    }
+  }
 
-      // 构建反馈文本
-      let feedbackText = '';
-      
-      // 添加文字反馈
-      if (result.interactive_feedback) {
-        feedbackText += `=== User Feedback ===\n${result.interactive_feedback}`;
+  /**
+   * 请求创建后几秒内没有插件响应（没有事件订阅，也没有轮询）且没有打开的浏览器页面时，在浏览器中打开页面
+   */
+  private scheduleBrowserOpen(requestId: string) {
+    const requestedAt = Date.now();
+    setTimeout(() => {
+      const extensionSubscribers = this.eventClients.size - this.browserEventClients.size;
+      if (!this.pendingRequests.has(requestId) || !this.httpServer
+        || extensionSubscribers > 0 || this.browserEventClients.size > 0
+        || this.lastExtensionSeen >= requestedAt - BROWSER_OPEN_DELAY) {
+        return;
       }
+      debugLog('No extension responded, opening browser UI');
+      openInBrowser(this.getBrowserUrl(), error => debugLog(`Failed to open browser: ${error}`));
+    }, BROWSER_OPEN_DELAY);
+  }
 
-      // 添加附加文件路径
-      if (result.attachedFiles && result.attachedFiles.length > 0) {
-        debugLog(`Processing ${result.attachedFiles.length} attached files`);
-        feedbackText += `\n\n=== Attached Files ===\n`;
-        for (const filePath of result.attachedFiles) {
-          feedbackText += `${filePath}\n`;
-        }
-        feedbackText += `\nPlease read the above files to understand the context.`;
+  /**
+   * 请求等待 MCP_FEEDBACK_WEBHOOK_DELAY 秒后仍未回复时发送 Webhook
+   */
+  private scheduleWebhook(config: WebhookConfig, request: FeedbackRequest) {
+    setTimeout(() => {
+      if (!this.pendingRequests.has(request.id)) {
+        return;
       }
+      // 表单请求无法通过回复页面填写，不附带回复链接
+      const expires = request.timestamp + request.timeout * 1000;
+      const replyUrl = config.replyBaseUrl && request.kind !== 'form'
+        ? buildReplyUrl(config.replyBaseUrl, this.replySecret, request.id, expires)
+        : null;
+      const body = buildWebhookPayload(config, {
+        requestId: request.id,
+        kind: request.kind || 'feedback',
+        projectDir: request.projectDir,
+        summary: request.summary,
+        timeout: request.timeout,
+        timestamp: request.timestamp,
+        replyUrl,
+      });
+      sendWebhook(config.url, body)
+        .then(() => debugLog(`Webhook sent for request ${request.id}`))
+        .catch(error => debugLog(`Webhook failed for request ${request.id}: ${error}`));
+    }, config.delayMs);
+  }
 
-      if (feedbackText) {
-        contentItems.push({
-          type: 'text',
-          text: feedbackText,
-        });
-      }
+  /**
+   * 浏览器界面地址
+   */
+  private getBrowserUrl(): string {
+    return `http://127.0.0.1:${this.port}/?token=${this.token}`;
+  }
 
-      // 添加图片
-      if (result.images && result.images.length > 0) {
-        debugLog(`Processing ${result.images.length} images`);
-        for (const img of result.images) {
-          contentItems.push({
-            type: 'image',
-            data: img.data,
-            mimeType: this.getMimeType(img.name),
-          });
+  /**
+   * 处理事件订阅：先发送当前快照，之后推送请求的创建/完成/取消/超时
+   */
+  private handleEventStream(req: http.IncomingMessage, res: http.ServerResponse, fromBrowser: boolean) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(`event: snapshot\ndata: ${JSON.stringify({
+      requests: this.getOpenRequests(),
+      ownerWorkspace: this.ownerWorkspace,
+      startTime: this.startTime,
+    })}\n\n`);
+
+    this.eventClients.add(res);
+    if (fromBrowser) {
+      this.browserEventClients.add(res);
+    }
+    debugLog(`Event subscriber connected (${this.eventClients.size} total)`);
+
+    // 定期发送注释行保持连接，便于插件检测断线
+    if (!this.eventPingTimer) {
+      this.eventPingTimer = setInterval(() => {
+        for (const client of this.eventClients) {
+          client.write(': ping\n\n');
         }
-      }
+      }, 15000);
+    }
 
-      if (contentItems.length === 0) {
-        contentItems.push({
-          type: 'text',
-          text: 'User did not provide any feedback.',
-        });
+    req.on('close', () => {
+      this.eventClients.delete(res);
+      this.browserEventClients.delete(res);
+      debugLog(`Event subscriber disconnected (${this.eventClients.size} total)`);
+      if (this.eventClients.size === 0 && this.eventPingTimer) {
+        clearInterval(this.eventPingTimer);
+        this.eventPingTimer = null;
       }
+    });
+  }
 
-      return { content: contentItems };
-    } catch (error) {
-      debugLog(`Error collecting feedback: ${error}`);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error collecting feedback: ${error}`,
-          },
-        ],
-      };
-    } finally {
-      this.currentRequest = null;
-    }
+  /**
+   * 获取所有待处理的请求（按创建时间排序）
+   */
+  private getOpenRequests(): FeedbackRequest[] {
+    return Array.from(this.pendingRequests.values())
+      .map(p => p.request)
+      .sort((a, b) => a.timestamp - b.timestamp);
   }
 
   /**
-   * 等待用户反馈
+   * 获取最新的待处理请求（兼容只支持单个请求的旧版插件）
    */
-  private waitForFeedback(requestId: string, timeoutMs: number): Promise<FeedbackResponse | null> {
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        debugLog(`Request ${requestId} timed out`);
-        this.pendingRequests.delete(requestId);
-        resolve(null);
-      }, timeoutMs);
-
-      this.pendingRequests.set(requestId, { 
-        resolve, 
-        reject: () => resolve(null), 
-        timeout 
-      });
-    });
+  private getLatestRequest(): FeedbackRequest | null {
+    const requests = this.getOpenRequests();
+    return requests.length > 0 ? requests[requests.length - 1] : null;
   }
 
   /**
@@ -352,7 +1307,8 @@ class McpFeedbackServer {
       arch: process.arch,
       hostname: os.hostname(),
       interfaceType: 'VS Code Extension',
-      mcpServerPort: this.port,
+      mcpServerPort: this.httpServer ? this.port : null,
+      mcpServerSocket: this.socketPath,
       pid: process.pid,
     };
 
@@ -367,30 +1323,47 @@ class McpFeedbackServer {
   }
 
   /**
-   * 根据文件名获取 MIME 类型
+   * 生成唯一的请求 ID
    */
-  private getMimeType(filename: string): string {
-    const ext = filename.toLowerCase().split('.').pop();
-    switch (ext) {
-      case 'jpg':
-      case 'jpeg':
-        return 'image/jpeg';
-      case 'png':
-        return 'image/png';
-      case 'gif':
-        return 'image/gif';
-      case 'webp':
-        return 'image/webp';
-      default:
-        return 'image/png';
+  private generateRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * 写入（或更新）登记文件，供插件发现此 Server
+   */
+  private writeRegistryEntry() {
+    const tcpListening = !!this.httpServer?.listening;
+    if (!tcpListening && !this.socketPath) {
+      return;
+    }
+    try {
+      writeServerEntry({
+        pid: process.pid,
+        port: tcpListening ? this.port : null,
+        ...(this.socketPath ? { socketPath: this.socketPath } : {}),
+        token: this.token,
+        ownerWorkspace: this.ownerWorkspace,
+        startTime: this.startTime,
+      });
+    } catch (error) {
+      debugLog(`Failed to write server registry entry: ${error}`);
     }
   }
 
   /**
-   * 生成唯一的请求 ID
+   * 校验 Host 请求头，只允许通过本机地址访问
    */
-  private generateRequestId(): string {
-    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private isAllowedHost(host: string | undefined): boolean {
+    return host === `127.0.0.1:${this.port}` || host === `localhost:${this.port}`;
+  }
+
+  /**
+   * 访问其他 Server 时使用的 token 请求头（从登记文件读取）
+   */
+  private authHeaders(port: number): Record<string, string> {
+    const entry = findServerEntry(port);
+    return entry ? { [TOKEN_HEADER]: entry.token } : {};
   }
 
   /**
@@ -404,6 +1377,7 @@ class McpFeedbackServer {
           port: port,
           path: '/api/health',
           method: 'GET',
+          headers: this.authHeaders(port),
           timeout: 1000,
         },
         (res) => {
@@ -449,6 +1423,7 @@ class McpFeedbackServer {
           port: port,
           path: '/api/shutdown',
           method: 'POST',
+          headers: this.authHeaders(port),
           timeout: 3000,
         },
         (res) => {
@@ -473,112 +1448,300 @@ class McpFeedbackServer {
   }
 
   /**
-   * 启动 HTTP 服务器，用于与 VS Code 插件通信
+   * 处理插件的 HTTP 请求（TCP 和 Unix socket / 命名管道共用）
+   * viaSocket：通过 socket 连接时由文件权限保护，不需要 token
    */
-  private startHttpServer(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.httpServer = http.createServer((req, res) => {
-        // 包裹整个请求处理逻辑，防止异常导致进程崩溃
-        try {
-          // 注意：活动时间的更新已移到具体的请求处理中
-          // 只有来自匹配工作区的请求才会更新活动时间
+  private handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse, viaSocket: boolean) {
+    // 包裹整个请求处理逻辑，防止异常导致进程崩溃
+    try {
+      // 注意：活动时间的更新已移到具体的请求处理中
+      // 只有来自匹配工作区的请求才会更新活动时间
 
-          // 设置 CORS 头
-          res.setHeader('Access-Control-Allow-Origin', '*');
-          res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-          res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      // 回复链接（Webhook 消息中附带）：通过签名校验，可以经由隧道等外部地址访问，不检查 Host 和 token
+      const replyMatch = /^\/reply\/([^/]+)$/.exec(new URL(req.url || '/', 'http://127.0.0.1').pathname);
+      if (replyMatch && !viaSocket && this.webhook?.replyBaseUrl) {
+        this.handleReply(decodeURIComponent(replyMatch[1]), req, res);
+        return;
+      }
 
-          if (req.method === 'OPTIONS') {
-            res.writeHead(200);
-            res.end();
-            return;
-          }
+      // 不设置 CORS 头：浏览器中的其他网页无法读取响应
+      // Host 校验用于防止 DNS rebinding
+      if (!viaSocket && !this.isAllowedHost(req.headers.host)) {
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Forbidden host' }));
+        return;
+      }
 
-          // 获取当前反馈请求
-          if (req.method === 'GET' && req.url?.startsWith('/api/feedback/current')) {
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          // 返回当前请求、ownerWorkspace 和 startTime
-          res.end(JSON.stringify({
-            request: this.currentRequest || null,
-            ownerWorkspace: this.ownerWorkspace,
-            startTime: this.startTime,
-          }));
-          return;
-        }
+      // 所有接口都需要 token（请求头或 ?token= 查询参数）
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      const pathname = url.pathname;
+      const headerToken = req.headers[TOKEN_HEADER];
+      const token = (Array.isArray(headerToken) ? headerToken[0] : headerToken) || url.searchParams.get('token') || undefined;
+      if (!viaSocket && !tokensEqual(this.token, token)) {
+        debugLog(`Rejected unauthenticated request: ${req.method} ${pathname}`);
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+      }
+      const fromBrowser = url.searchParams.get('client') === 'browser';
+      if (!fromBrowser) {
+        this.lastExtensionSeen = Date.now();
+      }
 
-        // 提交反馈
-        if (req.method === 'POST' && req.url === '/api/feedback/submit') {
-          let body = '';
-          req.on('data', chunk => {
-            body += chunk.toString();
-          });
-          req.on('end', () => {
-            try {
-              const data = JSON.parse(body) as { requestId: string; feedback: FeedbackResponse };
-              const { requestId, feedback } = data;
-              
-              debugLog(`Received feedback submission for request: ${requestId}`);
-              
-              const pending = this.pendingRequests.get(requestId);
-              if (pending) {
-                clearTimeout(pending.timeout);
-                pending.resolve(feedback);
-                this.pendingRequests.delete(requestId);
-                
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ success: true }));
-              } else {
-                debugLog(`Request ${requestId} not found`);
-                res.writeHead(404, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ error: 'Request not found' }));
-              }
-            } catch (error) {
-              debugLog(`Invalid request body: ${error}`);
-              res.writeHead(400, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Invalid request body' }));
-            }
-          });
-          return;
-        }
+      // 浏览器界面（页面和静态资源）
+      if (req.method === 'GET' && this.browserUi !== 'off' && !viaSocket
+        && (pathname === '/' || pathname.startsWith('/ui/'))) {
+        this.serveBrowserUi(pathname, url, req, res);
+        return;
+      }
 
-        // 健康检查
-        if (req.method === 'GET' && req.url === '/api/health') {
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ 
-            status: 'ok', 
-            version: '0.0.1',
-            hasCurrentRequest: this.currentRequest !== null,
-            pid: process.pid,
-          }));
-          return;
-        }
+      // 获取当前反馈请求（旧版插件使用，只返回最新的一个）
+      if (req.method === 'GET' && pathname === '/api/feedback/current') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      // 返回当前请求、ownerWorkspace 和 startTime
+      res.end(JSON.stringify({
+        request: this.getLatestRequest(),
+        ownerWorkspace: this.ownerWorkspace,
+        startTime: this.startTime,
+      }));
+      return;
+    }
 
-        // 关闭服务器（用于新进程替换旧进程）
-        if (req.method === 'POST' && req.url === '/api/shutdown') {
-          debugLog('Received shutdown request from new MCP Server instance');
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: true, message: 'Shutting down...' }));
+    // 获取所有待处理的反馈请求
+    if (req.method === 'GET' && pathname === '/api/feedback/pending') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        requests: this.getOpenRequests(),
+        ended: Object.fromEntries(this.endedRequests),
+        ownerWorkspace: this.ownerWorkspace,
+        startTime: this.startTime,
+      }));
+      return;
+    }
+
+    // 提交反馈
+    if (req.method === 'POST' && pathname === '/api/feedback/submit') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        try {
+          const data = JSON.parse(body) as { requestId: string; feedback: FeedbackResponse };
+          const { requestId, feedback } = data;
           
-          // 延迟关闭，确保响应已发送
-          setTimeout(() => {
-            this.stop();
-            process.exit(0);
-          }, 100);
-          return;
+          debugLog(`Received feedback submission for request: ${requestId}`);
+          
+          const result = this.submitFeedback(requestId, feedback);
+          res.writeHead(result.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(result.error
+            ? { error: result.error }
+            : { success: true, ...(result.rejectedImages ? { rejectedImages: result.rejectedImages } : {}) }));
+        } catch (error) {
+          debugLog(`Invalid request body: ${error}`);
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid request body' }));
         }
+      });
+      return;
+    }
 
-          res.writeHead(404);
-          res.end('Not Found');
+    // 用户正在输入：延长请求的等待时间
+    if (req.method === 'POST' && pathname === '/api/feedback/heartbeat') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        try {
+          const { requestId } = JSON.parse(body) as { requestId: string };
+          const timeout = this.extendRequest(requestId);
+          if (timeout === null) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Request not found' }));
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, timeout }));
         } catch (error) {
-          debugLog(`HTTP request error: ${error}`);
-          try {
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Internal server error' }));
-          } catch {
-            // 响应可能已经发送，忽略
+          debugLog(`Invalid request body: ${error}`);
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid request body' }));
+        }
+      });
+      return;
+    }
+
+    // 跳过请求 / 结束对话
+    if (req.method === 'POST' && pathname === '/api/feedback/cancel') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        try {
+          const { requestId, reason } = JSON.parse(body) as { requestId: string; reason: UnansweredStatus };
+          if (!CANCEL_REASONS.includes(reason)) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `reason must be one of: ${CANCEL_REASONS.join(', ')}` }));
+            return;
+          }
+
+          const cancelled = this.cancelRequest(requestId, reason);
+          if (cancelled.length > 0) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, cancelled }));
+          } else {
+            debugLog(`Request ${requestId} not found`);
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Request not found' }));
           }
+        } catch (error) {
+          debugLog(`Invalid request body: ${error}`);
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid request body' }));
         }
       });
+      return;
+    }
+
+    // 订阅事件推送（替代插件的定时轮询）
+    if (req.method === 'GET' && pathname === '/api/events') {
+      this.handleEventStream(req, res, fromBrowser);
+      return;
+    }
+
+    // 健康检查
+    if (req.method === 'GET' && pathname === '/api/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ 
+        status: 'ok', 
+        version: '0.0.1',
+        hasCurrentRequest: this.pendingRequests.size > 0,
+        pendingCount: this.pendingRequests.size,
+        pid: process.pid,
+      }));
+      return;
+    }
+
+    // 关闭服务器（用于新进程替换旧进程）
+    if (req.method === 'POST' && pathname === '/api/shutdown') {
+      debugLog('Received shutdown request from new MCP Server instance');
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, message: 'Shutting down...' }));
+      
+      // 延迟关闭，确保响应已发送
+      setTimeout(() => {
+        this.stop();
+        process.exit(0);
+      }, 100);
+      return;
+    }
+
+      res.writeHead(404);
+      res.end('Not Found');
+    } catch (error) {
+      debugLog(`HTTP request error: ${error}`);
+      try {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+      } catch {
+        // 响应可能已经发送，忽略
+      }
+    }
+  }
+
+  /**
+   * 处理回复链接：GET 显示回复表单，POST 提交反馈
+   */
+  private handleReply(requestId: string, req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const sendPage = (status: number, html: string) => {
+      res.writeHead(status, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Referrer-Policy': 'no-referrer',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+      });
+      res.end(html);
+    };
+
+    const pending = this.pendingRequests.get(requestId);
+    if (!verifyReply(this.replySecret, requestId, parseInt(url.searchParams.get('expires') || '', 10), url.searchParams.get('sig'))) {
+      sendPage(403, renderReplyPage({ message: 'This link is invalid or has expired.' }));
+      return;
+    }
+    if (!pending || pending.request.kind === 'form') {
+      sendPage(404, renderReplyPage({ message: 'This request has already been answered or is no longer waiting.' }));
+      return;
+    }
+
+    const { request } = pending;
+    if (req.method === 'GET') {
+      sendPage(200, renderReplyPage({
+        summary: request.summary,
+        projectDir: request.projectDir,
+        choices: request.options,
+        multiSelect: request.multiSelect,
+        approval: request.kind === 'approval',
+        details: request.details,
+      }));
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405);
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      const form = new URLSearchParams(body);
+      const decision = (form.get('decision') || undefined) as ApprovalDecision | undefined;
+      const result = this.submitFeedback(requestId, {
+        interactive_feedback: form.get('feedback') || '',
+        images: [],
+        attachedFiles: [],
+        project_directory: request.projectDir,
+        selectedOptions: form.getAll('option').filter(option => request.options?.includes(option)),
+        approvalDecision: decision,
+        approvalEdits: decision === 'approved_with_edits' ? form.get('edits') || '' : undefined,
+      });
+      debugLog(`Reply link submission for request ${requestId}: ${result.status}`);
+      sendPage(result.status, renderReplyPage({ message: result.error || 'Feedback submitted. You can close this page.' }));
+    });
+  }
+
+  /**
+   * 提供浏览器界面
+   */
+  private serveBrowserUi(pathname: string, url: URL, req: http.IncomingMessage, res: http.ServerResponse) {
+    // 地址中带有 token：禁止作为 Referer 发送，也禁止被其他页面嵌入
+    const headers = { 'Cache-Control': 'no-store', 'Referrer-Policy': 'no-referrer', 'X-Frame-Options': 'DENY' };
+    if (pathname === '/') {
+      res.writeHead(200, { ...headers, 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(renderBrowserPage(this.token, url.searchParams.get('lang'), req.headers['accept-language']));
+      return;
+    }
+    const asset = readBrowserAsset(pathname.slice('/ui/'.length));
+    if (!asset) {
+      res.writeHead(404);
+      res.end('Not Found');
+      return;
+    }
+    res.writeHead(200, { ...headers, 'Content-Type': asset.contentType });
+    res.end(asset.content);
+  }
+
+  /**
+   * 启动 HTTP 服务器，用于与 VS Code 插件通信
+   */
+  private startHttpServer(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer = http.createServer((req, res) => this.handleHttpRequest(req, res, false));
 
       this.httpServer.on('error', async (err: NodeJS.ErrnoException) => {
         if (err.code === 'EADDRINUSE') {
@@ -594,9 +1757,86 @@ class McpFeedbackServer {
 
       this.httpServer.listen(this.port, '127.0.0.1', () => {
         debugLog(`HTTP Server listening on http://127.0.0.1:${this.port}`);
+        if (this.browserUi !== 'off') {
+          debugLog(`Browser UI: ${this.getBrowserUrl()}`);
+        }
+        this.writeRegistryEntry();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * 在工作区对应的 Unix socket / 命名管道上监听
+   * 同一工作区已有其他 Server 在监听时，使用带 pid 的路径（插件通过登记文件找到）
+   */
+  private async listenOnWorkspaceSocket(projectDir: string): Promise<void> {
+    this.closeSocketServer();
+
+    const primaryPath = getWorkspaceSocketPath(projectDir);
+    if (process.platform !== 'win32') {
+      fs.mkdirSync(path.dirname(primaryPath), { recursive: true, mode: 0o700 });
+    }
+
+    let socketPath = primaryPath;
+    if (await this.isSocketInUse(primaryPath)) {
+      socketPath = getWorkspaceSocketPath(projectDir, String(process.pid));
+    }
+    if (process.platform !== 'win32') {
+      // 清理已退出进程留下的 socket 文件
+      fs.rmSync(socketPath, { force: true });
+    }
+
+    const socketServer = http.createServer((req, res) => this.handleHttpRequest(req, res, true));
+    await new Promise<void>((resolve, reject) => {
+      socketServer.once('error', reject);
+      socketServer.listen(socketPath, () => {
+        socketServer.off('error', reject);
         resolve();
       });
     });
+    if (process.platform !== 'win32') {
+      fs.chmodSync(socketPath, 0o600);
+    }
+
+    this.socketServer = socketServer;
+    this.socketPath = socketPath;
+    debugLog(`HTTP Server listening on socket ${socketPath}`);
+    this.writeRegistryEntry();
+  }
+
+  /**
+   * 检查 socket 上是否有其他 Server 在监听
+   */
+  private isSocketInUse(socketPath: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.connect(socketPath);
+      socket.setTimeout(1000);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('error', () => resolve(false));
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve(false);
+      });
+    });
+  }
+
+  /**
+   * 停止 socket 监听并删除 socket 文件
+   */
+  private closeSocketServer() {
+    if (!this.socketServer) {
+      return;
+    }
+    this.socketServer.close();
+    this.socketServer = null;
+    if (this.socketPath && process.platform !== 'win32') {
+      fs.rmSync(this.socketPath, { force: true });
+    }
+    this.socketPath = null;
   }
 
   /**
@@ -605,9 +1845,16 @@ class McpFeedbackServer {
   async start(): Promise<void> {
     try {
       debugLog('Starting MCP Feedback Server...');
+
+      // 清理已退出进程留下的登记文件
+      readServerEntries();
       
-      // 启动 HTTP 服务器
-      await this.startHttpServer();
+      // 启动 HTTP 服务器（socket 模式在 AI 第一次调用工具、确定工作区后才监听）
+      if (this.transport === 'tcp') {
+        await this.startHttpServer();
+      } else if (this.browserUi !== 'off') {
+        debugLog('Browser UI is only available with MCP_FEEDBACK_TRANSPORT=tcp');
+      }
       
       // 启动 MCP stdio 传输
       const transport = new StdioServerTransport();
@@ -627,16 +1874,28 @@ class McpFeedbackServer {
   stop(): void {
     debugLog('Stopping server...');
 
+    // 关闭事件订阅连接
+    for (const client of this.eventClients) {
+      client.end();
+    }
+    this.eventClients.clear();
+    if (this.eventPingTimer) {
+      clearInterval(this.eventPingTimer);
+      this.eventPingTimer = null;
+    }
+
     // 关闭 HTTP 服务器
     if (this.httpServer) {
       this.httpServer.close();
       this.httpServer = null;
     }
+    this.closeSocketServer();
+    removeServerEntry(process.pid);
 
     // 清理待处理的请求
     for (const [, pending] of this.pendingRequests) {
       clearTimeout(pending.timeout);
-      pending.resolve(null);
+      pending.resolve({ status: 'cancelled' });
     }
     this.pendingRequests.clear();
     
@@ -648,8 +1907,22 @@ class McpFeedbackServer {
 
 // 主函数
 async function main() {
+  // 子命令：cursor-feedback-mcp relay（远程开发时在 Server 所在机器上运行）
+  if (process.argv[2] === 'relay') {
+    await runRelay(process.argv.slice(3));
+    return;
+  }
+  // 子命令：cursor-feedback-mcp reply / watch（没有图形界面时在终端中回复）
+  if (process.argv[2] === 'reply' || process.argv[2] === 'watch') {
+    process.exitCode = await runCli(process.argv[2], process.argv.slice(3));
+    return;
+  }
+
   const port = 61927;
   const server = new McpFeedbackServer(port);
+
+  // 任何方式退出时都删除登记文件
+  process.on('exit', () => removeServerEntry(process.pid));
   
   // 处理进程信号
   process.on('SIGINT', () => {
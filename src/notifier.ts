@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { I18nMessages } from './i18n';
+
+/**
+ * 等待反馈时的提醒：系统通知、提示音，以及超时前的重复提醒
+ * （Cursor 在后台时，插件内的消息很容易被忽略）
+ */
+
+// 需要提醒的请求（只用到这些字段）
+export interface WaitingRequest {
+  id: string;
+  summary: string;
+  timestamp: number;
+  timeout: number; // 秒
+}
+
+// off：不提醒；unfocused：只在窗口没有焦点时提醒；always：总是提醒
+type AlertMode = 'off' | 'unfocused' | 'always';
+
+const TITLE = 'Cursor Feedback';
+
+/**
+ * 读取提醒设置
+ */
+function getSettings() {
+  const config = vscode.workspace.getConfiguration('cursorFeedback.notifications');
+  return {
+    osNotification: config.get<AlertMode>('osNotification', 'off'),
+    command: config.get<string>('command', ''),
+    sound: config.get<AlertMode>('sound', 'off'),
+    soundFile: config.get<string>('soundFile', ''),
+    reminderInterval: config.get<number>('reminderInterval', 0),
+    warnBeforeTimeout: config.get<number>('warnBeforeTimeout', 60),
+  };
+}
+
+function shouldAlert(mode: AlertMode): boolean {
+  return mode === 'always' || (mode === 'unfocused' && !vscode.window.state.focused);
+}
+
+/**
+ * 格式化剩余时间（m:ss）
+ */
+function formatRemaining(request: WaitingRequest): string {
+  const remaining = Math.max(0, Math.round((request.timestamp + request.timeout * 1000 - Date.now()) / 1000));
+  return `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 在后台运行命令（忽略输出和错误，通知失败不影响反馈流程）
+ */
+function runDetached(command: string, args: string[], env: NodeJS.ProcessEnv, shell = false) {
+  try {
+    const child = spawn(command, args, { env: { ...process.env, ...env }, stdio: 'ignore', shell, detached: true, windowsHide: true });
+    child.on('error', error => console.error(`Failed to run ${command}:`, error));
+    child.unref();
+  } catch (error) {
+    console.error(`Failed to run ${command}:`, error);
+  }
+}
+
+/**
+ * 发送系统通知
+ * 标题和内容通过环境变量传递，不拼接到命令行中，避免摘要中的特殊字符被 shell 解释
+ */
+function showOsNotification(customCommand: string, message: string) {
+  const env = { CURSOR_FEEDBACK_TITLE: TITLE, CURSOR_FEEDBACK_MESSAGE: message };
+  if (customCommand) {
+    runDetached(customCommand, [], env, true);
+  } else if (process.platform === 'darwin') {
+    runDetached('osascript', ['-e',
+      'display notification (system attribute "CURSOR_FEEDBACK_MESSAGE") with title (system attribute "CURSOR_FEEDBACK_TITLE")'], env);
+  } else if (process.platform === 'win32') {
+    runDetached('powershell', ['-NoProfile', '-Command', [
+      'Add-Type -AssemblyName System.Windows.Forms',
+      '$n = New-Object System.Windows.Forms.NotifyIcon',
+      '$n.Icon = [System.Drawing.SystemIcons]::Information',
+      '$n.Visible = $true',
+      '$n.ShowBalloonTip(10000, $env:CURSOR_FEEDBACK_TITLE, $env:CURSOR_FEEDBACK_MESSAGE, "Info")',
+      'Start-Sleep -Seconds 10',
+      '$n.Dispose()',
+    ].join('; ')], env);
+  } else {
+    runDetached('notify-send', ['--app-name', TITLE, TITLE, message], env);
+  }
+}
+
+/**
+ * 播放提示音（未指定文件时使用系统声音）
+ */
+function playSound(soundFile: string) {
+  const env = { CURSOR_FEEDBACK_SOUND: soundFile };
+  if (process.platform === 'darwin') {
+    runDetached('afplay', [soundFile || '/System/Library/Sounds/Glass.aiff'], env);
+  } else if (process.platform === 'win32') {
+    runDetached('powershell', ['-NoProfile', '-Command', soundFile
+      ? '(New-Object System.Media.SoundPlayer $env:CURSOR_FEEDBACK_SOUND).PlaySync()'
+      : '[System.Media.SystemSounds]::Asterisk.Play(); Start-Sleep -Seconds 1'], env);
+  } else {
+    runDetached('paplay', [soundFile || '/usr/share/sounds/freedesktop/stereo/message.oga'], env);
+  }
+}
+
+export class WaitingNotifier implements vscode.Disposable {
+  // 每个请求的提醒定时器
+  private _timers: Map<string, NodeJS.Timeout[]> = new Map();
+
+  constructor(
+    private readonly _getMessages: () => I18nMessages,
+    private readonly _isViewVisible: () => boolean
+  ) {}
+
+  /**
+   * 新请求到达：发送通知，并安排重复提醒和超时前提醒
+   */
+  public requestOpened(request: WaitingRequest) {
+    if (this._timers.has(request.id)) {
+      return;
+    }
+    this._alert(request.summary.split('\n')[0].slice(0, 200) || this._getMessages().aiWaitingFeedback, false);
+    this._schedule(request);
+  }
+
+  /**
+   * 请求的等待时间被延长（用户正在输入）：按新的超时时间重新安排提醒
+   */
+  public requestExtended(request: WaitingRequest) {
+    const timers = this._timers.get(request.id);
+    if (!timers) {
+      return;
+    }
+    timers.forEach(timer => clearTimeout(timer));
+    this._schedule(request);
+  }
+
+  /**
+   * 同步仍在等待的请求，停止已结束请求的提醒
+   */
+  public sync(openRequestIds: string[]) {
+    for (const [id, timers] of this._timers) {
+      if (!openRequestIds.includes(id)) {
+        timers.forEach(timer => clearTimeout(timer));
+        this._timers.delete(id);
+      }
+    }
+  }
+
+  public dispose() {
+    this.sync([]);
+  }
+
+  /**
+   * 安排重复提醒和超时前提醒
+   */
+  private _schedule(request: WaitingRequest) {
+    const settings = getSettings();
+    const deadline = request.timestamp + request.timeout * 1000;
+    const timers: NodeJS.Timeout[] = [];
+    if (settings.reminderInterval > 0) {
+      const interval = setInterval(() => {
+        // 距离超时不足一个间隔时停止，由超时前提醒接替
+        if (deadline - Date.now() > settings.reminderInterval * 1000) {
+          this._remind(request);
+        }
+      }, settings.reminderInterval * 1000);
+      timers.push(interval);
+    }
+    const warnAt = deadline - settings.warnBeforeTimeout * 1000 - Date.now();
+    if (settings.warnBeforeTimeout > 0 && warnAt > 0) {
+      timers.push(setTimeout(() => this._remind(request), warnAt));
+    }
+    this._timers.set(request.id, timers);
+  }
+
+  /**
+   * 提醒仍在等待的请求
+   */
+  private _remind(request: WaitingRequest) {
+    this._alert(this._getMessages().reminderWaiting.replace('{remaining}', formatRemaining(request)), true);
+  }
+
+  /**
+   * 按设置发送系统通知和提示音；重复提醒在反馈面板不可见时还会显示插件内消息
+   */
+  private _alert(message: string, isReminder: boolean) {
+    const settings = getSettings();
+    if (shouldAlert(settings.osNotification)) {
+      showOsNotification(settings.command, message);
+    }
+    if (shouldAlert(settings.sound)) {
+      playSound(settings.soundFile);
+    }
+    if (isReminder && !this._isViewVisible()) {
+      const open = this._getMessages().openFeedback;
+      vscode.window.showInformationMessage(message, open).then(choice => {
+        if (choice === open) {
+          vscode.commands.executeCommand('cursorFeedback.feedbackView.focus');
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import * as http from 'http';
+import {
+  ServerEntry,
+  TOKEN_HEADER,
+  generateToken,
+  readServerEntries,
+  tokensEqual,
+} from './server-registry';
+
+/**
+ * 远程开发中转（cursor-feedback-mcp relay）
+ *
+ * MCP Server 和插件不在同一台机器时（SSH / WSL / 开发容器），插件无法通过 127.0.0.1 或本机 socket 访问 Server。
+ * 在 Server 所在机器上运行中转，把这台机器上登记的所有 Server 通过一个端口暴露出来，
+ * 插件通过 cursorFeedback.relayUrl（配合端口转发）连接：
+ *
+ *   GET  /api/relay/servers           登记的 Server 列表（不包含 token）
+ *   ANY  /api/relay/<pid>/<api 路径>   转发到对应 Server 的 HTTP API（支持 SSE）
+ *
+ * 中转本身需要 token（--token 参数、MCP_FEEDBACK_RELAY_TOKEN 环境变量，或启动时随机生成并打印）
+ */
+
+interface RelayOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+// 调试日志输出到 stderr
+function relayLog(message: string) {
+  console.error(`[${new Date().toISOString()}] [relay] ${message}`);
+}
+
+/**
+ * 解析命令行参数
+ */
+function parseRelayArgs(argv: string[]): RelayOptions {
+  const options: RelayOptions = {
+    host: '127.0.0.1',
+    port: 61920,
+    token: process.env.MCP_FEEDBACK_RELAY_TOKEN || '',
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--host':
+        options.host = value;
+        i++;
+        break;
+      case '--port':
+        options.port = parseInt(value, 10);
+        i++;
+        break;
+      case '--token':
+        options.token = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown relay option: ${argv[i]}`);
+    }
+  }
+  if (!Number.isInteger(options.port) || options.port <= 0) {
+    throw new Error('--port must be a positive integer');
+  }
+  return options;
+}
+
+/**
+ * 将请求转发到本机的 Server
+ */
+function forwardRequest(entry: ServerEntry, apiPath: string, req: http.IncomingMessage, res: http.ServerResponse) {
+  const headers: http.OutgoingHttpHeaders = { [TOKEN_HEADER]: entry.token };
+  for (const name of ['content-type', 'content-length']) {
+    if (req.headers[name]) {
+      headers[name] = req.headers[name];
+    }
+  }
+
+  const upstream = http.request({
+    ...(entry.port !== null
+      ? { hostname: '127.0.0.1', port: entry.port }
+      : { socketPath: entry.socketPath }),
+    path: apiPath,
+    method: req.method,
+    headers,
+  }, (upstreamRes) => {
+    res.writeHead(upstreamRes.statusCode || 502, {
+      'Content-Type': upstreamRes.headers['content-type'] || 'application/json',
+      ...(upstreamRes.headers['cache-control'] ? { 'Cache-Control': upstreamRes.headers['cache-control'] } : {}),
+    });
+    upstreamRes.pipe(res);
+  });
+
+  upstream.on('error', (error) => {
+    relayLog(`Forwarding to server ${entry.pid} failed: ${error}`);
+    if (!res.headersSent) {
+      res.writeHead(502, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Server unreachable' }));
+    } else {
+      res.end();
+    }
+  });
+  // 插件断开（例如 SSE 订阅结束）时同时断开到 Server 的连接
+  res.on('close', () => upstream.destroy());
+  req.pipe(upstream);
+}
+
+/**
+ * 处理中转请求
+ */
+function handleRelayRequest(options: RelayOptions, req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || '/', 'http://relay');
+  const headerToken = req.headers[TOKEN_HEADER];
+  const token = (Array.isArray(headerToken) ? headerToken[0] : headerToken) || url.searchParams.get('token') || undefined;
+  if (!tokensEqual(options.token, token)) {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/relay/servers') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      servers: readServerEntries().map(({ pid, ownerWorkspace, startTime }) => ({ pid, ownerWorkspace, startTime })),
+    }));
+    return;
+  }
+
+  const match = /^\/api\/relay\/(\d+)(\/api\/.*)$/.exec(url.pathname);
+  const entry = match ? readServerEntries().find(e => e.pid === parseInt(match[1], 10)) : undefined;
+  if (!match || !entry) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: match ? 'Server not found' : 'Not Found' }));
+    return;
+  }
+
+  // 转发时去掉中转自己的 token
+  url.searchParams.delete('token');
+  forwardRequest(entry, match[2] + url.search, req, res);
+}
+
+/**
+ * 启动中转
+ */
+export function runRelay(argv: string[]): Promise<void> {
+  const options = parseRelayArgs(argv);
+  const printToken = !options.token;
+  if (!options.token) {
+    options.token = generateToken();
+  }
+
+  const server = http.createServer((req, res) => {
+    try {
+      handleRelayRequest(options, req, res);
+    } catch (error) {
+      relayLog(`Request error: ${error}`);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      const relayUrl = `http://${options.host}:${options.port}/?token=${printToken ? options.token : '<token>'}`;
+      relayLog(`Listening on ${options.host}:${options.port}`);
+      relayLog(`Set "cursorFeedback.relayUrl" to ${relayUrl} (forward the port first when the extension runs on another machine)`);
+      resolve();
+    });
+  });
+}
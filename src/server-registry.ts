@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * 本地 Server 登记信息：每个 MCP Server 启动时在固定目录写入一个登记文件
+ * （端口、pid、所属工作区、启动时间和随机 token），退出时删除。
+ * 插件读取登记文件直接找到自己工作区的 Server，并使用其中的 token 访问 HTTP API。
+ * 文件只有当前用户可读。（Server 和插件共用，不能依赖 vscode）
+ */
+
+// 请求头中携带 token 的字段（也可以使用 ?token= 查询参数）
+export const TOKEN_HEADER = 'x-cursor-feedback-token';
+
+export interface ServerEntry {
+  pid: number;
+  port: number | null; // 只使用 Unix socket / 命名管道时为 null
+  socketPath?: string;
+  token: string;
+  ownerWorkspace: string | null; // 规范化后的所属工作区，AI 调用工具前为 null
+  startTime: number;
+}
+
+/**
+ * 登记文件所在目录
+ */
+export function getRegistryDir(): string {
+  return path.join(os.homedir(), '.cursor-feedback', 'servers');
+}
+
+/**
+ * 规范化工作区路径（去除末尾斜杠，统一分隔符，小写）
+ */
+export function normalizeWorkspacePath(p: string): string {
+  return p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * 工作区对应的 Unix socket / 命名管道路径（由规范化后的工作区路径计算）
+ * suffix 用于同一工作区已有其他 Server 在监听时
+ */
+export function getWorkspaceSocketPath(workspace: string, suffix?: string): string {
+  const hash = crypto.createHash('sha256').update(normalizeWorkspacePath(workspace)).digest('hex').slice(0, 16);
+  const name = suffix ? `${hash}-${suffix}` : hash;
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\cursor-feedback-${name}`;
+  }
+  // 放在只有当前用户可访问的目录中（socket 路径长度有限制，不能太长）
+  return path.join(os.homedir(), '.cursor-feedback', 'sockets', `${name}.sock`);
+}
+
+/**
+ * 生成随机 token
+ */
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * 比较 token（固定时间，避免通过响应时间猜测）
+ */
+export function tokensEqual(expected: string, actual: string | undefined): boolean {
+  if (!actual) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * 写入登记文件（目录 0700，文件 0600）
+ */
+export function writeServerEntry(entry: ServerEntry): void {
+  const dir = getRegistryDir();
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = path.join(dir, `${entry.pid}.json`);
+  // 先写临时文件再重命名，避免插件读到写了一半的内容
+  const tmpFile = `${file}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(entry, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpFile, file);
+}
+
+/**
+ * 删除登记文件
+ */
+export function removeServerEntry(pid: number): void {
+  try {
+    fs.unlinkSync(path.join(getRegistryDir(), `${pid}.json`));
+  } catch {
+    // 文件可能已被删除
+  }
+}
+
+/**
+ * 检查进程是否仍在运行
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM：进程存在，但属于其他用户
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * 读取所有登记的 Server
+ * 进程已退出（例如被强制结束）的登记文件会被顺便删除
+ */
+export function readServerEntries(): ServerEntry[] {
+  const dir = getRegistryDir();
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(f => f.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  const entries: ServerEntry[] = [];
+  for (const file of files) {
+    try {
+      const entry = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      if (typeof entry.pid !== 'number' || typeof entry.token !== 'string'
+        || (typeof entry.port !== 'number' && typeof entry.socketPath !== 'string')) {
+        continue;
+      }
+      if (!isProcessAlive(entry.pid)) {
+        removeServerEntry(entry.pid);
+        continue;
+      }
+      entries.push({ ownerWorkspace: null, startTime: 0, ...entry });
+    } catch {
+      // 忽略损坏或正在写入的文件
+    }
+  }
+  return entries;
+}
+
+/**
+ * 查找监听指定端口的 Server（pid 复用等原因出现多个时使用最新启动的）
+ */
+export function findServerEntry(port: number): ServerEntry | undefined {
+  return readServerEntries()
+    .filter(entry => entry.port === port)
+    .sort((a, b) => b.startTime - a.startTime)[0];
+}
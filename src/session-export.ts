@@ -0,0 +1,188 @@
+import * as path from 'path';
+import { HistoryEntry } from './history';
+import { EditorContextItem } from './editor-context';
+
+/**
+ * 会话记录导出：把一个会话的反馈历史（摘要、回复、附件和时间）导出为 Markdown 或 JSON，
+ * JSON 可以重新导入，也便于脚本处理
+ */
+
+export const EXPORT_FORMAT = 'cursor-feedback-session';
+export const EXPORT_VERSION = 1;
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  workspace: string;
+  sessionId: string | null; // 导出全部历史时为 null
+  entries: HistoryEntry[]; // 按时间顺序
+}
+
+export interface Session {
+  id: string | null; // 记录会话之前的历史没有会话 ID
+  entries: HistoryEntry[]; // 按时间顺序
+}
+
+/**
+ * 把历史记录按会话分组（最新的会话在前）
+ */
+export function groupSessions(entries: HistoryEntry[]): Session[] {
+  const sessions = new Map<string | null, HistoryEntry[]>();
+  for (const entry of [...entries].sort((a, b) => a.requestTimestamp - b.requestTimestamp)) {
+    const id = entry.sessionId || null;
+    sessions.set(id, [...(sessions.get(id) || []), entry]);
+  }
+  return Array.from(sessions, ([id, sessionEntries]) => ({ id, entries: sessionEntries }))
+    .sort((a, b) => b.entries[b.entries.length - 1].requestTimestamp - a.entries[a.entries.length - 1].requestTimestamp);
+}
+
+/**
+ * 导出为 JSON
+ */
+export function toJson(session: Session, workspace: string): string {
+  const data: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    workspace,
+    sessionId: session.id,
+    entries: session.entries,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * 解析导出的 JSON，格式不正确时抛出错误
+ */
+export function parseSessionJson(text: string): HistoryEntry[] {
+  const data = JSON.parse(text) as Partial<SessionExport>;
+  if (data.format !== EXPORT_FORMAT || !Array.isArray(data.entries)) {
+    throw new Error(`Not a ${EXPORT_FORMAT} file`);
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported version: ${data.version}`);
+  }
+  return data.entries.filter((entry): entry is HistoryEntry =>
+    !!entry && typeof entry.requestId === 'string' && typeof entry.requestTimestamp === 'number'
+    && typeof entry.replyTimestamp === 'number' && typeof entry.feedback === 'string');
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+function formatAttachment(item: EditorContextItem): string {
+  return item.kind === 'selection'
+    ? `Selection \`${item.path}:${item.startLine}-${item.endLine}\``
+    : `Diagnostics \`${item.path}\` (${item.diagnostics.length})`;
+}
+
+/**
+ * 图片缩略图（data URL）转为文件
+ */
+function decodeImage(dataUrl: string): { ext: string; data: Buffer } | null {
+  const match = /^data:image\/([\w.+-]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    return null;
+  }
+  const ext = match[1] === 'jpeg' ? 'jpg' : match[1].replace('svg+xml', 'svg');
+  return { ext, data: Buffer.from(match[2], 'base64') };
+}
+
+/**
+ * 导出为 Markdown
+ * imageDir 为空时图片内嵌为 data URL，否则保存到该目录（相对 Markdown 文件的路径），返回需要写入的图片文件
+ */
+export function toMarkdown(
+  session: Session,
+  workspace: string,
+  imageDir: string | null
+): { markdown: string; images: Array<{ path: string; data: Buffer }> } {
+  const { entries } = session;
+  const images: Array<{ path: string; data: Buffer }> = [];
+  const lines: string[] = [
+    '# Cursor Feedback Session',
+    '',
+    `- Workspace: \`${workspace}\``,
+    `- Session: ${session.id ? `\`${session.id}\`` : '(all history)'}`,
+    `- Rounds: ${entries.length}`,
+  ];
+  if (entries.length > 0) {
+    lines.push(`- Time: ${formatTime(entries[0].requestTimestamp)} – ${formatTime(entries[entries.length - 1].replyTimestamp)}`);
+  }
+  lines.push(`- Exported: ${formatTime(Date.now())}`, '');
+
+  entries.forEach((entry, index) => {
+    const round = index + 1;
+    lines.push(
+      `## Round ${round}`,
+      '',
+      `- Project: \`${entry.projectDir}\``,
+      `- Requested: ${formatTime(entry.requestTimestamp)}`,
+      `- Replied: ${formatTime(entry.replyTimestamp)}`,
+      '',
+      '### Summary',
+      '',
+      entry.summary || '-',
+      '',
+      '### Reply',
+      ''
+    );
+
+    if (entry.cancelReason) {
+      lines.push(entry.cancelReason === 'ended' ? '**⏹️ Conversation ended**' : '**⏭️ Dismissed**', '');
+    }
+    if (entry.autoReply) {
+      lines.push(`**🤖 Auto-replied** (rule ${entry.autoReply.rule}, ${entry.autoReply.count}/${entry.autoReply.maxRounds})`, '');
+    }
+    if (entry.approvalDecision) {
+      lines.push(`**Decision:** ${entry.approvalDecision}`, '');
+    }
+    if (entry.selectedOptions?.length) {
+      lines.push(`**Selected options:** ${entry.selectedOptions.join(', ')}`, '');
+    }
+    lines.push(entry.feedback ? quote(entry.feedback) : '> -', '');
+    if (entry.formValues) {
+      lines.push('**Form:**', '', '```json', JSON.stringify(entry.formValues, null, 2), '```', '');
+    }
+    if (entry.diffComments?.length) {
+      lines.push('**Review comments:**', '');
+      for (const comment of entry.diffComments) {
+        lines.push(`- \`${comment.path}\` ${comment.hunk}: ${comment.comment.replace(/\n/g, ' ')}`);
+      }
+      lines.push('');
+    }
+
+    const attachments = [
+      ...(entry.attachedFiles || []).map(file => `\`${file}\``),
+      ...(entry.contextItems || []).map(formatAttachment),
+    ];
+    if (attachments.length > 0) {
+      lines.push('**Attachments:**', '', ...attachments.map(item => `- ${item}`), '');
+    }
+
+    const thumbnails = (entry.images || []).filter(img => img.thumbnail);
+    if (thumbnails.length > 0) {
+      lines.push('**Images:**', '');
+      thumbnails.forEach((img, i) => {
+        const alt = img.name.replace(/[[\]]/g, '');
+        const decoded = imageDir ? decodeImage(img.thumbnail) : null;
+        if (imageDir && decoded) {
+          const file = `round-${round}-${i + 1}.${decoded.ext}`;
+          images.push({ path: file, data: decoded.data });
+          lines.push(`![${alt}](${encodeURI(path.posix.join(imageDir, file))})`);
+        } else {
+          lines.push(`![${alt}](${img.thumbnail})`);
+        }
+      });
+      lines.push('');
+    }
+  });
+
+  return { markdown: lines.join('\n'), images };
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { I18nMessages } from './i18n';
+
+/**
+ * 状态栏：显示与 MCP Server 的连接状态（未连接 / 监听中 / 等待回复），
+ * 等待回复时显示剩余时间的倒计时，点击打开反馈面板
+ */
+
+export interface StatusBarState {
+  connected: boolean;
+  endpoint: number | string | null;
+  // 当前显示的请求（没有等待中的请求时为 null）
+  request: { summary: string; timestamp: number; timeout: number } | null;
+  waitingCount: number;
+}
+
+export class FeedbackStatusBar implements vscode.Disposable {
+  private readonly _item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  private _state: StatusBarState = { connected: false, endpoint: null, request: null, waitingCount: 0 };
+  private _countdown: NodeJS.Timeout | null = null;
+
+  constructor(private readonly _getMessages: () => I18nMessages) {
+    this._item.name = 'Cursor Feedback';
+    this._item.command = 'cursorFeedback.showPanel';
+    this._render();
+    this._item.show();
+  }
+
+  public update(state: StatusBarState) {
+    this._state = state;
+    // 只在等待回复时每秒刷新倒计时
+    if (state.request && !this._countdown) {
+      this._countdown = setInterval(() => this._render(), 1000);
+    } else if (!state.request && this._countdown) {
+      clearInterval(this._countdown);
+      this._countdown = null;
+    }
+    this._render();
+  }
+
+  public dispose() {
+    if (this._countdown) {
+      clearInterval(this._countdown);
+    }
+    this._item.dispose();
+  }
+
+  private _render() {
+    const i18n = this._getMessages();
+    const { connected, endpoint, request, waitingCount } = this._state;
+
+    if (request) {
+      const remaining = Math.max(0, Math.round((request.timestamp + request.timeout * 1000 - Date.now()) / 1000));
+      const time = remaining > 0
+        ? `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`
+        : i18n.timeout;
+      this._item.text = `$(bell-dot) ${time}${waitingCount > 1 ? ` (${waitingCount})` : ''}`;
+      this._item.tooltip = `${i18n.aiWaitingFeedback}\n\n${request.summary.split('\n')[0]}\n\n${i18n.remainingTime}: ${time}`;
+      this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+      return;
+    }
+
+    this._item.backgroundColor = undefined;
+    if (connected) {
+      this._item.text = '$(radio-tower) Feedback';
+      this._item.tooltip = i18n.statusBarListening.replace('{endpoint}', endpoint === null ? '-' : String(endpoint));
+    } else {
+      this._item.text = '$(debug-disconnect) Feedback';
+      this._item.tooltip = i18n.mcpServerDisconnected;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { runGit } from './diff-review';
+
+/**
+ * 回复模板：常用回复保存在设置中（用户级 + 工作区级），
+ * 在输入框中通过 / 命令或模板按钮插入，提交前由插件展开其中的变量
+ */
+
+export interface ReplyTemplate {
+  name: string;
+  text: string;
+}
+
+/**
+ * 读取模板：合并用户、工作区和工作区文件夹的设置（同名模板以范围更小的为准）
+ */
+export function getTemplates(): ReplyTemplate[] {
+  const inspected = vscode.workspace.getConfiguration('cursorFeedback').inspect<unknown[]>('templates');
+  const templates = new Map<string, ReplyTemplate>();
+  for (const list of [inspected?.globalValue, inspected?.workspaceValue, inspected?.workspaceFolderValue]) {
+    for (const item of Array.isArray(list) ? list : []) {
+      const { name, text } = (item || {}) as Partial<ReplyTemplate>;
+      if (typeof name === 'string' && name.trim() && typeof text === 'string') {
+        templates.set(name.trim(), { name: name.trim(), text });
+      }
+    }
+  }
+  return Array.from(templates.values());
+}
+
+/**
+ * 展开回复中的变量：
+ * ${activeFile} 当前编辑器的文件（相对工作区的路径）；${selection} 当前编辑器选中的文本；${gitBranch} 项目当前的 git 分支
+ * 没有值时替换为空字符串，其他 ${...} 保持不变
+ */
+export async function expandTemplateVariables(text: string, projectDir: string): Promise<string> {
+  if (!/\$\{(activeFile|selection|gitBranch)\}/.test(text)) {
+    return text;
+  }
+
+  // 焦点在侧边栏时 activeTextEditor 可能为空，退回到可见的编辑器
+  const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+  const values: Record<string, string> = {
+    activeFile: editor && !editor.document.isUntitled ? vscode.workspace.asRelativePath(editor.document.uri, false) : '',
+    selection: editor ? editor.document.getText(editor.selection) : '',
+    gitBranch: text.includes('${gitBranch}')
+      ? (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], projectDir || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '.'))?.trim() || ''
+      : '',
+  };
+  return text.replace(/\$\{(activeFile|selection|gitBranch)\}/g, (_match, name: string) => values[name]);
+}
@@ -0,0 +1,48 @@
+import './vscode-stub';
+import { strict as assert } from 'assert';
+import { after, before, describe, it, mock } from 'node:test';
+import { AutoReplyRule, findAutoReplyRule, getRuleLabel } from '../auto-reply';
+
+const RULES: AutoReplyRule[] = [
+  { name: 'tests', summary: 'tests? (pass|green)', reply: 'Continue' },
+  { project: '/work/api$', minRound: 2, maxRound: 3, reply: 'API rounds 2-3' },
+  { summary: '[invalid', reply: 'never' },
+  { reply: 'fallback' },
+];
+
+const find = (summary: string, projectDir: string, round: number) =>
+  findAutoReplyRule(RULES, { summary, projectDir }, round);
+
+describe('findAutoReplyRule', () => {
+  // 无效的正则会输出错误日志
+  before(() => mock.method(console, 'error', () => undefined));
+  after(() => mock.restoreAll());
+
+  it('returns the first matching rule, matching case-insensitively', () => {
+    assert.deepEqual(find('All TESTS PASS', '/work/api', 2), { rule: RULES[0], index: 0 });
+  });
+
+  it('applies project patterns and round limits', () => {
+    assert.equal(find('Refactored', '/work/api', 1)?.index, 3);
+    assert.equal(find('Refactored', '/work/api', 2)?.index, 1);
+    assert.equal(find('Refactored', '/work/api', 3)?.index, 1);
+    assert.equal(find('Refactored', '/work/api', 4)?.index, 3);
+    assert.equal(find('Refactored', '/work/api-client', 2)?.index, 3);
+  });
+
+  it('skips rules with invalid patterns', () => {
+    assert.equal(find('[invalid', '/work/web', 1)?.index, 3);
+  });
+
+  it('returns null when no rule matches', () => {
+    assert.equal(findAutoReplyRule(RULES.slice(0, 3), { summary: 'Done', projectDir: '/work/web' }, 1), null);
+    assert.equal(findAutoReplyRule([], { summary: 'Done', projectDir: '/work/web' }, 1), null);
+  });
+});
+
+describe('getRuleLabel', () => {
+  it('uses the rule name or its position', () => {
+    assert.equal(getRuleLabel(RULES[0], 0), 'tests');
+    assert.equal(getRuleLabel(RULES[3], 3), '#4');
+  });
+});
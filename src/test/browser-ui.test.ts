@@ -0,0 +1,22 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { renderBrowserPage } from '../browser-ui';
+
+describe('renderBrowserPage', () => {
+  it('only allows the inline i18n script through a per-page nonce', () => {
+    const page = renderBrowserPage('secret-token', 'en', undefined);
+    const csp = /http-equiv="Content-Security-Policy" content="([^"]*)"/.exec(page)![1];
+    assert.doesNotMatch(csp, /unsafe-inline/);
+
+    const nonce = /'nonce-([^']+)'/.exec(csp)![1];
+    const inlineScripts = page.match(/<script(?![^>]*\bsrc=)[^>]*>/g) || [];
+    assert.deepEqual(inlineScripts, [`<script nonce="${nonce}">`]);
+    assert.notEqual(/'nonce-([^']+)'/.exec(renderBrowserPage('secret-token', 'en', undefined))![1], nonce);
+  });
+
+  it('adds the token to asset URLs', () => {
+    const page = renderBrowserPage('a b', 'zh-CN', undefined);
+    assert.match(page, /<script src="\/ui\/browser-host\.js\?token=a%20b"><\/script>/);
+    assert.match(page, /<html lang="zh-CN"/);
+  });
+});
@@ -0,0 +1,76 @@
+import './vscode-stub';
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { parseUnifiedDiff, reverseApply } from '../diff-review';
+
+describe('parseUnifiedDiff', () => {
+  it('parses hunks and skips file headers', () => {
+    const hunks = parseUnifiedDiff([
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,3 +1,3 @@ function a()',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+      '@@ -10 +10,2 @@',
+      ' ten',
+      '+eleven',
+    ].join('\r\n'));
+    assert.deepEqual(hunks, [
+      {
+        header: '@@ -1,3 +1,3 @@ function a()',
+        oldStart: 1, oldLines: 3, newStart: 1, newLines: 3,
+        lines: [
+          { type: 'ctx', text: 'one' },
+          { type: 'del', text: 'two' },
+          { type: 'add', text: 'TWO' },
+          { type: 'ctx', text: 'three' },
+        ],
+      },
+      {
+        header: '@@ -10 +10,2 @@',
+        oldStart: 10, oldLines: 1, newStart: 10, newLines: 2,
+        lines: [{ type: 'ctx', text: 'ten' }, { type: 'add', text: 'eleven' }],
+      },
+    ]);
+  });
+
+  it('stops at the next file', () => {
+    const hunks = parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b\ndiff --git a/b b/b\n+not part of the hunk');
+    assert.equal(hunks.length, 1);
+    assert.deepEqual(hunks[0].lines, [{ type: 'del', text: 'a' }, { type: 'add', text: 'b' }]);
+  });
+});
+
+describe('reverseApply', () => {
+  it('restores the original from hunks with context', () => {
+    const original = 'one\ntwo\nthree\nfour\nfive\nsix\n';
+    const current = 'one\nTWO\nthree\nfour\nfive\nsix\nseven\n';
+    const hunks = parseUnifiedDiff('@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n@@ -5,2 +5,3 @@\n five\n six\n+seven\n');
+    assert.equal(reverseApply(current, hunks), original);
+  });
+
+  it('places -U0 deletions after newStart', () => {
+    const original = 'one\ntwo\nthree\nfour\n';
+    const current = 'one\nfour\n';
+    assert.equal(reverseApply(current, parseUnifiedDiff('@@ -2,2 +1,0 @@\n-two\n-three\n')), original);
+  });
+
+  it('restores a deletion at the top of the file', () => {
+    assert.equal(reverseApply('two\n', parseUnifiedDiff('@@ -1 +0,0 @@\n-one\n')), 'one\ntwo\n');
+  });
+
+  it('restores a deleted file', () => {
+    assert.equal(reverseApply('', parseUnifiedDiff('@@ -1,2 +0,0 @@\n-one\n-two\n')), 'one\ntwo\n');
+  });
+
+  it('keeps CRLF line endings', () => {
+    assert.equal(reverseApply('a\r\nB\r\n', parseUnifiedDiff('@@ -1,2 +1,2 @@\n a\n-b\n+B\n')), 'a\r\nb\r\n');
+  });
+
+  it('returns null when the content does not match the diff', () => {
+    assert.equal(reverseApply('one\nchanged\n', parseUnifiedDiff('@@ -1,2 +1,2 @@\n one\n-two\n+TWO\n')), null);
+  });
+});
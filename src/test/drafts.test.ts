@@ -0,0 +1,68 @@
+import { strict as assert } from 'assert';
+import { describe, it, mock } from 'node:test';
+import * as vscode from 'vscode';
+import { DraftStore, FeedbackDraft, shouldSaveDraft } from '../drafts';
+
+class MemoryMemento {
+  private readonly _values = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this._values.has(key) ? this._values.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this._values.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}
+
+const DRAFT: FeedbackDraft = { text: 'Half-typed reply', files: ['src/app.ts'] };
+
+const createStore = () => new DraftStore(new MemoryMemento() as unknown as vscode.Memento);
+
+describe('shouldSaveDraft', () => {
+  it('keeps drafts of requests that timed out or were cancelled by the agent', () => {
+    assert.equal(shouldSaveDraft('timeout'), true);
+    assert.equal(shouldSaveDraft('cancelled'), true);
+  });
+
+  it('drops drafts of requests answered elsewhere or ended by the user', () => {
+    // 例如通过命令行、浏览器界面或回复链接回复
+    assert.equal(shouldSaveDraft('submitted'), false);
+    assert.equal(shouldSaveDraft('dismissed'), false);
+    assert.equal(shouldSaveDraft('ended'), false);
+    assert.equal(shouldSaveDraft(undefined), false);
+  });
+});
+
+describe('DraftStore', () => {
+  it('restores the draft once, into a request created after the ended one', async () => {
+    const store = createStore();
+    await store.save('/work/app/', DRAFT, 1000);
+    assert.equal(store.take('/work/app', 1000), null);
+    assert.deepEqual(store.take('/WORK/app', 1001), DRAFT);
+    assert.equal(store.take('/work/app', 1002), null);
+  });
+
+  it('compares server timestamps, not the time the draft was saved', async () => {
+    // Server 时钟比本机慢一分钟（例如通过中转连接远程机器）
+    const store = createStore();
+    await store.save('/work/app', DRAFT, Date.now() - 120000);
+    assert.deepEqual(store.take('/work/app', Date.now() - 60000), DRAFT);
+  });
+
+  it('keeps one draft per project and ignores old drafts', async () => {
+    const store = createStore();
+    await store.save('/work/app', DRAFT, 1000);
+    await store.save('/work/api', { text: 'API', files: [] }, 1000);
+    await store.save('/work/app', { text: 'Newer', files: [] }, 2000);
+    assert.equal(store.take('/work/app', 3000)?.text, 'Newer');
+
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 25 * 60 * 60 * 1000);
+    try {
+      assert.equal(store.take('/work/api', 3000), null);
+    } finally {
+      mock.restoreAll();
+    }
+  });
+});
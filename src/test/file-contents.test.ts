@@ -0,0 +1,71 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { collectFileContents, FileContentLimits } from '../file-contents';
+
+const LIMITS: FileContentLimits = { maxFileBytes: 1024, maxTotalBytes: 4096, maxFiles: 100 };
+
+describe('collectFileContents', () => {
+  let root: string;
+
+  // 在临时目录中创建文件（路径用 / 分隔）
+  const write = (relative: string, content: string | Buffer) => {
+    const fullPath = path.join(root, ...relative.split('/'));
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+  const collected = async (relative: string, limits = LIMITS) => {
+    const result = await collectFileContents([path.join(root, relative)], limits);
+    return result.files.map(f => path.relative(root, f.path).split(path.sep).join('/'));
+  };
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-feedback-test-'));
+    fs.mkdirSync(path.join(root, '.git'));
+    write('.gitignore', '*.log\n/build/\nsrc/generated/**\n!keep.log\n# comment\n');
+    write('app/.gitignore', 'local.txt\ncache/\n');
+    write('app/main.ts', 'main');
+    write('app/debug.log', 'ignored');
+    write('app/keep.log', 'kept');
+    write('app/local.txt', 'ignored');
+    write('app/cache/data.txt', 'ignored');
+    write('app/build/out.js', 'kept: /build/ is anchored to the root');
+    write('app/src/generated/types.ts', 'kept: the pattern is relative to the root');
+    write('src/generated/types.ts', 'ignored');
+    write('src/index.ts', 'index');
+    write('build/out.js', 'ignored');
+    write('bin/tool', Buffer.from([0x7f, 0x45, 0x00, 0x01]));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('expands folders honoring nested and ancestor .gitignore files', async () => {
+    assert.deepEqual(await collected('app'), [
+      'app/.gitignore',
+      'app/build/out.js',
+      'app/keep.log',
+      'app/main.ts',
+      'app/src/generated/types.ts',
+    ]);
+    assert.deepEqual(await collected('src'), ['src/index.ts']);
+  });
+
+  it('skips binary and missing files', async () => {
+    const result = await collectFileContents([path.join(root, 'bin'), path.join(root, 'missing.ts')], LIMITS);
+    assert.deepEqual(result.files, []);
+    assert.deepEqual(result.skipped.map(s => s.reason), ['not found', 'binary file']);
+  });
+
+  it('truncates files and stops at the limits', async () => {
+    const result = await collectFileContents(
+      [path.join(root, 'app/main.ts'), path.join(root, 'src/index.ts'), path.join(root, 'app/keep.log')],
+      { maxFileBytes: 3, maxTotalBytes: 100, maxFiles: 2 }
+    );
+    assert.deepEqual(result.files.map(f => [f.text, f.truncated]), [['mai', true], ['ind', true]]);
+    assert.equal(result.limitReached, true);
+  });
+});
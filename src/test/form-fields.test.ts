@@ -0,0 +1,62 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { FormField, parseFormFields, validateFormValues } from '../form-fields';
+
+describe('parseFormFields', () => {
+  it('normalizes fields and defaults the type to string', () => {
+    const result = parseFormFields([
+      { name: 'version', label: 'Version', required: true, pattern: '^\\d+\\.\\d+$', extra: 1 },
+      { name: 'confirm', type: 'boolean', default: true },
+      { name: 'target', type: 'enum', options: ['dev', 'prod', 3] },
+    ]);
+    assert.deepEqual(result, {
+      fields: [
+        { name: 'version', type: 'string', label: 'Version', required: true, pattern: '^\\d+\\.\\d+$' },
+        { name: 'confirm', type: 'boolean', default: true },
+        { name: 'target', type: 'enum', options: ['dev', 'prod'] },
+      ],
+    });
+  });
+
+  it('rejects invalid field lists', () => {
+    assert.deepEqual(parseFormFields([]), { error: 'fields must be a non-empty array' });
+    assert.deepEqual(parseFormFields([{ type: 'string' }]), { error: 'fields[0].name is required' });
+    assert.deepEqual(parseFormFields([{ name: 'a' }, { name: 'a' }]), { error: 'Duplicate field name: a' });
+    assert.match((parseFormFields([{ name: 'a', type: 'date' }]) as { error: string }).error, /unsupported type "date"/);
+    assert.deepEqual(parseFormFields([{ name: 'a', type: 'enum', options: [] }]), {
+      error: 'Enum field "a" requires a non-empty options array',
+    });
+    assert.deepEqual(parseFormFields([{ name: 'a', pattern: '(' }]), { error: 'Field "a" has an invalid pattern' });
+  });
+});
+
+describe('validateFormValues', () => {
+  const fields: FormField[] = [
+    { name: 'version', type: 'string', required: true, pattern: '^\\d+\\.\\d+$' },
+    { name: 'count', type: 'number', min: 1, max: 10 },
+    { name: 'target', type: 'enum', options: ['dev', 'prod'] },
+    { name: 'confirm', type: 'boolean', required: true },
+  ];
+
+  it('accepts valid values and skips empty optional fields', () => {
+    assert.deepEqual(validateFormValues(fields, { version: '1.2', count: 10, target: 'prod', confirm: false }), []);
+    assert.deepEqual(validateFormValues(fields, { version: '1.2', count: '' }), []);
+  });
+
+  it('reports each invalid value', () => {
+    assert.deepEqual(validateFormValues(fields, { count: 0, target: 'qa', confirm: 'yes' }), [
+      'version is required',
+      'count must be >= 1',
+      'target must be one of: dev, prod',
+      'confirm must be true or false',
+    ]);
+    assert.deepEqual(validateFormValues(fields, { version: 'v1', count: 11 }), [
+      'version does not match pattern ^\\d+\\.\\d+$',
+      'count must be <= 10',
+    ]);
+    assert.deepEqual(validateFormValues(fields, { version: 1.2, count: '3' }), [
+      'version must be a string',
+      'count must be a number',
+    ]);
+  });
+});
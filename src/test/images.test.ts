@@ -0,0 +1,113 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { checkImages, ImageLimits, sniffImage, SubmittedImage } from '../images';
+
+function png(width: number, height: number): Buffer {
+  const data = Buffer.alloc(33);
+  data.writeUInt32BE(0x89504e47, 0);
+  data.writeUInt32BE(0x0d0a1a0a, 4);
+  data.writeUInt32BE(13, 8);
+  data.write('IHDR', 12, 'latin1');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+function gif(width: number, height: number): Buffer {
+  const data = Buffer.alloc(13);
+  data.write('GIF89a', 0, 'latin1');
+  data.writeUInt16LE(width, 6);
+  data.writeUInt16LE(height, 8);
+  return data;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  // SOI + APP0 + SOF2（渐进式）
+  const app0 = Buffer.alloc(18);
+  app0.writeUInt16BE(0xffe0, 0);
+  app0.writeUInt16BE(16, 2);
+  const sof = Buffer.alloc(19);
+  sof.writeUInt16BE(0xffc2, 0);
+  sof.writeUInt16BE(17, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+function webp(chunk: 'VP8 ' | 'VP8L' | 'VP8X', width: number, height: number): Buffer {
+  const data = Buffer.alloc(30);
+  data.write('RIFF', 0, 'latin1');
+  data.write('WEBP', 8, 'latin1');
+  data.write(chunk, 12, 'latin1');
+  if (chunk === 'VP8 ') {
+    data.writeUInt16LE(width, 26);
+    data.writeUInt16LE(height, 28);
+  } else if (chunk === 'VP8L') {
+    data.writeUInt32LE((width - 1) | ((height - 1) << 14), 21);
+  } else {
+    data.writeUIntLE(width - 1, 24, 3);
+    data.writeUIntLE(height - 1, 27, 3);
+  }
+  return data;
+}
+
+const LIMITS: ImageLimits = { maxImageBytes: 1024, maxTotalBytes: 2048, maxDimension: 1568 };
+
+const submit = (name: string, data: Buffer): SubmittedImage => ({ name, data: data.toString('base64'), size: data.length });
+
+describe('sniffImage', () => {
+  it('detects the format and size from the content', () => {
+    assert.deepEqual(sniffImage(png(640, 480)), { mimeType: 'image/png', width: 640, height: 480 });
+    assert.deepEqual(sniffImage(gif(32, 16)), { mimeType: 'image/gif', width: 32, height: 16 });
+    assert.deepEqual(sniffImage(jpeg(1920, 1080)), { mimeType: 'image/jpeg', width: 1920, height: 1080 });
+    assert.deepEqual(sniffImage(webp('VP8 ', 300, 200)), { mimeType: 'image/webp', width: 300, height: 200 });
+    assert.deepEqual(sniffImage(webp('VP8L', 300, 200)), { mimeType: 'image/webp', width: 300, height: 200 });
+    assert.deepEqual(sniffImage(webp('VP8X', 5000, 3000)), { mimeType: 'image/webp', width: 5000, height: 3000 });
+  });
+
+  it('returns null for other or truncated files', () => {
+    assert.equal(sniffImage(Buffer.from('BM not an image at all, just text')), null);
+    assert.equal(sniffImage(png(1, 1).subarray(0, 20)), null);
+    assert.equal(sniffImage(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x00, 0x00, 0x00, 0x00])), null);
+    assert.equal(sniffImage(Buffer.alloc(0)), null);
+  });
+});
+
+describe('checkImages', () => {
+  it('accepts supported images and fills in their type and size', () => {
+    const { accepted, rejected } = checkImages([submit('a.png', png(640, 480))], LIMITS);
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(accepted.map(({ data, ...rest }) => rest), [
+      { name: 'a.png', size: 33, mimeType: 'image/png', width: 640, height: 480 },
+    ]);
+  });
+
+  it('rejects unsupported images and images over the size limits', () => {
+    const big = Buffer.concat([png(10, 10), Buffer.alloc(900)]);
+    const { accepted, rejected } = checkImages([
+      submit('a.bmp', Buffer.from('BM not an image at all, just text')),
+      submit('huge.png', Buffer.concat([big, Buffer.alloc(1000)])),
+      submit('1.png', big),
+      submit('2.png', big),
+      submit('3.png', big),
+      submit('4.png', png(1, 1)),
+    ], LIMITS);
+    assert.deepEqual(accepted.map(image => image.name), ['1.png', '2.png', '4.png']);
+    assert.deepEqual(rejected.map(image => image.name), ['a.bmp', 'huge.png', '3.png']);
+    assert.match(rejected[0].reason, /unsupported or corrupted image/);
+    assert.match(rejected[1].reason, /2 KB exceeds the 1 KB limit per image/);
+    assert.match(rejected[2].reason, /total image size would exceed the 2 KB limit/);
+  });
+
+  it('rejects images over the max dimension except GIFs, unless the limit is 0', () => {
+    const images = [submit('wide.png', png(1569, 10)), submit('tall.jpg', jpeg(800, 2000)), submit('anim.gif', gif(2000, 2000))];
+    const { accepted, rejected } = checkImages(images, LIMITS);
+    assert.deepEqual(accepted.map(image => image.name), ['anim.gif']);
+    assert.deepEqual(rejected, [
+      { name: 'wide.png', reason: '1569x10 exceeds the 1568 px limit (downscale it before sending)' },
+      { name: 'tall.jpg', reason: '800x2000 exceeds the 1568 px limit (downscale it before sending)' },
+    ]);
+    assert.equal(checkImages(images, { ...LIMITS, maxDimension: 0 }).accepted.length, 3);
+  });
+});
@@ -0,0 +1,115 @@
+import { strict as assert } from 'assert';
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+
+/**
+ * 中转的集成测试：启动一个 MCP Server 进程和一个中转进程（使用临时 HOME，互不影响本机的登记文件）
+ */
+
+const SERVER_SCRIPT = path.join(__dirname, '..', 'mcp-server.js');
+const RELAY_TOKEN = 'relay-test-token';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitFor<T>(check: () => T | undefined, timeoutMs = 10000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = check();
+    if (value !== undefined) {
+      return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error('Timed out');
+}
+
+function get(port: number, urlPath: string, token?: string): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({
+      host: '127.0.0.1',
+      port,
+      path: urlPath,
+      headers: token ? { 'x-cursor-feedback-token': token } : {},
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('relay', () => {
+  let home: string;
+  let server: ChildProcess;
+  let relay: ChildProcess;
+  let relayPort: number;
+
+  before(async () => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-feedback-relay-'));
+    const env = { ...process.env, HOME: home, USERPROFILE: home };
+    server = spawn(process.execPath, [SERVER_SCRIPT], { env, stdio: ['pipe', 'ignore', 'ignore'] });
+    const registryDir = path.join(home, '.cursor-feedback', 'servers');
+    await waitFor(() => (fs.existsSync(registryDir) && fs.readdirSync(registryDir).length > 0) || undefined);
+
+    relayPort = await freePort();
+    relay = spawn(process.execPath, [SERVER_SCRIPT, 'relay', '--port', String(relayPort), '--token', RELAY_TOKEN], {
+      env,
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+    let relayOutput = '';
+    relay.stderr!.on('data', chunk => relayOutput += chunk);
+    await waitFor(() => relayOutput.includes('Listening on') || undefined);
+  });
+
+  after(() => {
+    relay?.kill();
+    server?.kill();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('lists registered servers without their tokens', async () => {
+    const { status, body } = await get(relayPort, '/api/relay/servers', RELAY_TOKEN);
+    assert.equal(status, 200);
+    assert.deepEqual(body.servers.map((s: { pid: number }) => s.pid), [server.pid]);
+    assert.equal(body.servers[0].token, undefined);
+  });
+
+  it('forwards API requests to the server', async () => {
+    const { status, body } = await get(relayPort, `/api/relay/${server.pid}/api/feedback/pending`, RELAY_TOKEN);
+    assert.equal(status, 200);
+    assert.deepEqual(body.requests, []);
+  });
+
+  it('accepts the token as a query parameter', async () => {
+    const { status } = await get(relayPort, `/api/relay/servers?token=${RELAY_TOKEN}`);
+    assert.equal(status, 200);
+  });
+
+  it('rejects requests without the relay token', async () => {
+    for (const urlPath of ['/api/relay/servers', `/api/relay/${server.pid}/api/feedback/pending`]) {
+      assert.equal((await get(relayPort, urlPath)).status, 401);
+      assert.equal((await get(relayPort, urlPath, 'wrong-token')).status, 401);
+    }
+  });
+
+  it('returns 404 for unknown servers', async () => {
+    const { status, body } = await get(relayPort, '/api/relay/1/api/feedback/pending', RELAY_TOKEN);
+    assert.equal(status, 404);
+    assert.equal(body.error, 'Server not found');
+  });
+});
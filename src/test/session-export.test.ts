@@ -0,0 +1,92 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { HistoryEntry } from '../history';
+import { groupSessions, parseSessionJson, toJson, toMarkdown } from '../session-export';
+
+// 1x1 PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const entry = (requestId: string, sessionId: string | undefined, requestTimestamp: number, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  requestId,
+  sessionId,
+  summary: `Summary ${requestId}`,
+  projectDir: '/work/app',
+  requestTimestamp,
+  replyTimestamp: requestTimestamp + 1000,
+  feedback: `Reply ${requestId}`,
+  images: [],
+  attachedFiles: [],
+  ...extra,
+});
+
+describe('groupSessions', () => {
+  it('groups entries by session, newest session first, entries in time order', () => {
+    const sessions = groupSessions([
+      entry('b2', 'b', 4000),
+      entry('a1', 'a', 1000),
+      entry('old', undefined, 500),
+      entry('b1', 'b', 3000),
+      entry('a2', 'a', 2000),
+    ]);
+    assert.deepEqual(sessions.map(s => [s.id, s.entries.map(e => e.requestId)]), [
+      ['b', ['b1', 'b2']],
+      ['a', ['a1', 'a2']],
+      [null, ['old']],
+    ]);
+  });
+});
+
+describe('JSON export', () => {
+  it('round-trips the session entries', () => {
+    const entries = [
+      entry('r1', 's', 1000, { selectedOptions: ['A'], cancelReason: 'dismissed' }),
+      entry('r2', 's', 2000, { autoReply: { rule: 'tests', count: 1, maxRounds: 5 } }),
+    ];
+    const json = toJson({ id: 's', entries }, '/work/app');
+    assert.equal(JSON.parse(json).sessionId, 's');
+    assert.deepEqual(parseSessionJson(json), entries);
+  });
+
+  it('rejects other files and newer versions, and drops malformed entries', () => {
+    assert.throws(() => parseSessionJson('{"entries": []}'), /Not a cursor-feedback-session file/);
+    assert.throws(() => parseSessionJson('{"format": "cursor-feedback-session", "version": 99, "entries": []}'), /Unsupported version: 99/);
+    assert.throws(() => parseSessionJson('not json'), SyntaxError);
+    const valid = entry('r1', 's', 1000);
+    const json = JSON.stringify({ format: 'cursor-feedback-session', version: 1, entries: [valid, null, { requestId: 'x' }] });
+    assert.deepEqual(parseSessionJson(json), [valid]);
+  });
+});
+
+describe('toMarkdown', () => {
+  const session = {
+    id: 's',
+    entries: [
+      entry('r1', 's', Date.UTC(2024, 0, 1), {
+        feedback: 'Line 1\nLine 2',
+        attachedFiles: ['src/app.ts'],
+        diffComments: [{ path: 'src/app.ts', hunk: '@@ -1 +1 @@', comment: 'Rename\nthis' }],
+        images: [{ name: 'shot [1].png', thumbnail: PNG }],
+      }),
+      entry('r2', 's', Date.UTC(2024, 0, 2), { cancelReason: 'ended', feedback: '' }),
+    ],
+  };
+
+  it('writes every round with its reply, attachments and status', () => {
+    const { markdown } = toMarkdown(session, '/work/app', null);
+    assert.match(markdown, /- Rounds: 2/);
+    assert.match(markdown, /## Round 1\n\n- Project: `\/work\/app`\n- Requested: 2024-01-01T00:00:00\.000Z/);
+    assert.match(markdown, /> Line 1\n> Line 2/);
+    assert.match(markdown, /- `src\/app\.ts` @@ -1 \+1 @@: Rename this/);
+    assert.match(markdown, /\*\*Attachments:\*\*\n\n- `src\/app\.ts`/);
+    assert.match(markdown, /## Round 2[\s\S]*\*\*⏹️ Conversation ended\*\*\n\n> -/);
+  });
+
+  it('embeds images as data URLs or writes them next to the file', () => {
+    assert.match(toMarkdown(session, '/work/app', null).markdown, /!\[shot 1\.png\]\(data:image\/png;base64,/);
+
+    const { markdown, images } = toMarkdown(session, '/work/app', 'my export-images');
+    assert.match(markdown, /!\[shot 1\.png\]\(my%20export-images\/round-1-1\.png\)/);
+    assert.deepEqual(images.map(img => img.path), ['round-1-1.png']);
+    assert.deepEqual(images[0].data, Buffer.from(PNG.split(',')[1], 'base64'));
+  });
+});
@@ -0,0 +1,12 @@
+import Module = require('module');
+
+/**
+ * 测试在 VS Code 之外运行：用空对象代替 vscode 模块，
+ * 让只在运行时才使用 vscode API 的模块（例如 diff-review、auto-reply）可以被加载
+ * 需要在导入这些模块之前导入
+ */
+const loader = Module as unknown as { _load: (request: string, ...args: unknown[]) => unknown };
+const originalLoad = loader._load;
+loader._load = function (request: string, ...args: unknown[]) {
+  return request === 'vscode' ? {} : originalLoad.call(this, request, ...args);
+};
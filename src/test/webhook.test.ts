@@ -0,0 +1,114 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import {
+  buildReplyUrl,
+  buildWebhookPayload,
+  renderReplyPage,
+  signReply,
+  verifyReply,
+  WebhookConfig,
+  WebhookEvent,
+} from '../webhook';
+
+const EVENT: WebhookEvent = {
+  requestId: 'req-1',
+  kind: 'feedback',
+  projectDir: '/work/app',
+  summary: 'Done <b>"quoted"</b>\nline 2',
+  timeout: 300,
+  timestamp: 1700000000000,
+  replyUrl: 'https://example.test/reply/req-1?sig=abc',
+};
+
+const config = (overrides: Partial<WebhookConfig>): WebhookConfig => ({
+  url: 'https://hooks.example.test',
+  format: 'json',
+  template: null,
+  delayMs: 0,
+  replyBaseUrl: null,
+  ...overrides,
+});
+
+describe('reply link signatures', () => {
+  const expires = Date.now() + 60000;
+
+  it('accepts a valid signature before it expires', () => {
+    assert.equal(verifyReply('secret', 'req-1', expires, signReply('secret', 'req-1', expires)), true);
+  });
+
+  it('rejects other requests, secrets, expiry times and missing signatures', () => {
+    const signature = signReply('secret', 'req-1', expires);
+    assert.equal(verifyReply('secret', 'req-2', expires, signature), false);
+    assert.equal(verifyReply('other', 'req-1', expires, signature), false);
+    assert.equal(verifyReply('secret', 'req-1', expires + 1, signature), false);
+    assert.equal(verifyReply('secret', 'req-1', expires, null), false);
+    assert.equal(verifyReply('secret', 'req-1', NaN, signature), false);
+  });
+
+  it('rejects expired links', () => {
+    const past = Date.now() - 1;
+    assert.equal(verifyReply('secret', 'req-1', past, signReply('secret', 'req-1', past)), false);
+  });
+
+  it('builds a URL carrying the expiry and signature', () => {
+    const url = new URL(buildReplyUrl('https://example.test', 'secret', 'a/b', expires));
+    assert.equal(url.pathname, '/reply/a%2Fb');
+    assert.equal(url.searchParams.get('expires'), String(expires));
+    assert.equal(verifyReply('secret', 'a/b', expires, url.searchParams.get('sig')), true);
+  });
+});
+
+describe('buildWebhookPayload', () => {
+  it('sends the event as JSON by default', () => {
+    assert.deepEqual(JSON.parse(buildWebhookPayload(config({}), EVENT)), { event: 'feedback_requested', ...EVENT });
+  });
+
+  it('escapes Slack markup and quotes the summary', () => {
+    const { text } = JSON.parse(buildWebhookPayload(config({ format: 'slack' }), EVENT));
+    assert.match(text, /> Done &lt;b&gt;"quoted"&lt;\/b&gt;\n> line 2/);
+    assert.match(text, /<https:\/\/example\.test\/reply\/req-1\?sig=abc\|Reply>/);
+  });
+
+  it('does not let the summary ping anyone on Discord', () => {
+    const payload = JSON.parse(buildWebhookPayload(config({ format: 'discord' }), { ...EVENT, summary: '@everyone <@&123> done' }));
+    assert.match(payload.content, /@everyone <@&123> done/);
+    assert.deepEqual(payload.allowed_mentions, { parse: [] });
+  });
+
+  it('fills custom templates with JSON-escaped values and keeps unknown placeholders', () => {
+    const template = '{"text": "{{summary}}", "link": "{{replyUrl}}", "other": "{{unknown}}"}';
+    assert.deepEqual(JSON.parse(buildWebhookPayload(config({ format: 'slack', template }), EVENT)), {
+      text: EVENT.summary,
+      link: EVENT.replyUrl,
+      other: '{{unknown}}',
+    });
+  });
+});
+
+describe('renderReplyPage', () => {
+  it('escapes the summary and options', () => {
+    const page = renderReplyPage({ summary: '<script>x</script>', projectDir: '/p', choices: ['A "1"'] });
+    assert.doesNotMatch(page, /<script>/);
+    assert.match(page, /value="A &quot;1&quot;"/);
+    assert.match(page, /<button>Send<\/button>/);
+  });
+
+  it('shows radio buttons unless several options can be selected', () => {
+    assert.match(renderReplyPage({ summary: 'Pick', choices: ['A'] }), /<input type="radio" name="option" value="A">/);
+    assert.match(renderReplyPage({ summary: 'Pick', choices: ['A'], multiSelect: true }), /<input type="checkbox" name="option" value="A">/);
+  });
+
+  it('offers approve, approve with edits and reject for approvals', () => {
+    const page = renderReplyPage({ summary: 'Drop table?', approval: true, details: 'DROP TABLE <users>;' });
+    for (const decision of ['approved', 'approved_with_edits', 'rejected']) {
+      assert.match(page, new RegExp(`name="decision" value="${decision}"`));
+    }
+    assert.match(page, /<textarea id="edits" name="edits" rows="6">DROP TABLE &lt;users&gt;;<\/textarea>/);
+  });
+
+  it('only shows the message when given', () => {
+    const page = renderReplyPage({ message: 'Link expired' });
+    assert.match(page, /<p class="message">Link expired<\/p>/);
+    assert.doesNotMatch(page, /<form/);
+  });
+});
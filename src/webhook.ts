@@ -0,0 +1,223 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { tokensEqual } from './server-registry';
+
+/**
+ * Webhook 通知：AI 开始等待反馈时向配置的地址 POST 消息（Slack / Discord / 通用 JSON / 自定义模板），
+ * 可以附带签名的回复链接，在手机上打开后直接提交反馈（需要自行将 Server 端口暴露出去，例如使用隧道）
+ */
+
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export interface WebhookConfig {
+  url: string;
+  format: WebhookFormat;
+  template: string | null; // 自定义 JSON 模板，优先于 format
+  delayMs: number; // 请求等待多久仍未回复才发送
+  replyBaseUrl: string | null; // 回复链接的外部地址，未设置时不附带回复链接
+}
+
+export interface WebhookEvent {
+  requestId: string;
+  kind: string;
+  projectDir: string;
+  summary: string;
+  timeout: number;
+  timestamp: number;
+  replyUrl: string | null;
+}
+
+const FORMATS: WebhookFormat[] = ['json', 'slack', 'discord'];
+
+/**
+ * 从环境变量读取 Webhook 配置，未配置 MCP_FEEDBACK_WEBHOOK_URL 时返回 null
+ */
+export function getWebhookConfig(): WebhookConfig | null {
+  const url = process.env.MCP_FEEDBACK_WEBHOOK_URL;
+  if (!url) {
+    return null;
+  }
+  const format = process.env.MCP_FEEDBACK_WEBHOOK_FORMAT as WebhookFormat;
+  const delay = parseInt(process.env.MCP_FEEDBACK_WEBHOOK_DELAY || '', 10);
+  return {
+    url,
+    format: FORMATS.includes(format) ? format : 'json',
+    template: process.env.MCP_FEEDBACK_WEBHOOK_TEMPLATE || null,
+    delayMs: Number.isFinite(delay) && delay > 0 ? delay * 1000 : 0,
+    replyBaseUrl: process.env.MCP_FEEDBACK_REPLY_BASE_URL?.replace(/\/+$/, '') || null,
+  };
+}
+
+/**
+ * 截断过长的文本（聊天工具对消息长度有限制）
+ */
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/**
+ * Slack 消息中 &、<、> 需要转义
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 生成 Webhook 请求体
+ * 自定义模板中的 {{summary}}、{{project}}、{{requestId}}、{{kind}}、{{timeout}}、{{replyUrl}} 会被替换为对应的值（按 JSON 字符串转义）
+ */
+export function buildWebhookPayload(config: WebhookConfig, event: WebhookEvent): string {
+  if (config.template) {
+    const values: Record<string, string> = {
+      summary: event.summary,
+      project: event.projectDir,
+      requestId: event.requestId,
+      kind: event.kind,
+      timeout: String(event.timeout),
+      replyUrl: event.replyUrl || '',
+    };
+    return config.template.replace(/\{\{(\w+)\}\}/g, (match, key) =>
+      key in values ? JSON.stringify(values[key]).slice(1, -1) : match);
+  }
+
+  switch (config.format) {
+    case 'slack':
+      return JSON.stringify({
+        text: [
+          `*AI is waiting for your feedback* · \`${escapeSlack(event.projectDir)}\``,
+          escapeSlack(truncate(event.summary, 2800)).split('\n').map(line => `> ${line}`).join('\n'),
+          event.replyUrl ? `<${event.replyUrl}|Reply>` : '',
+        ].filter(Boolean).join('\n'),
+      });
+    case 'discord':
+      return JSON.stringify({
+        content: [
+          `**AI is waiting for your feedback** · \`${event.projectDir}\``,
+          truncate(event.summary, 1700),
+          event.replyUrl ? `[Reply](${event.replyUrl})` : '',
+        ].filter(Boolean).join('\n'),
+        // 摘要由 AI 生成，其中的 @everyone / @here / 角色提及不通知任何人
+        allowed_mentions: { parse: [] },
+      });
+    default:
+      return JSON.stringify({ event: 'feedback_requested', ...event });
+  }
+}
+
+/**
+ * 发送 Webhook（5 秒超时，非 2xx 响应视为失败）
+ */
+export function sendWebhook(url: string, body: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+    const req = client.request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+      timeout: 5000,
+    }, (res) => {
+      res.resume();
+      const status = res.statusCode || 0;
+      if (status >= 200 && status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`HTTP ${status}`));
+      }
+    });
+    req.on('timeout', () => req.destroy(new Error('Request timed out')));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * 回复链接签名：HMAC-SHA256(secret, "<requestId>.<expires>")
+ */
+export function signReply(secret: string, requestId: string, expires: number): string {
+  return crypto.createHmac('sha256', secret).update(`${requestId}.${expires}`).digest('hex');
+}
+
+/**
+ * 校验回复链接的签名和有效期
+ */
+export function verifyReply(secret: string, requestId: string, expires: number, signature: string | null): boolean {
+  if (!signature || !Number.isFinite(expires) || Date.now() > expires) {
+    return false;
+  }
+  return tokensEqual(signReply(secret, requestId, expires), signature);
+}
+
+/**
+ * 生成回复链接
+ */
+export function buildReplyUrl(baseUrl: string, secret: string, requestId: string, expires: number): string {
+  return `${baseUrl}/reply/${encodeURIComponent(requestId)}?expires=${expires}&sig=${signReply(secret, requestId, expires)}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * 回复页面（适合手机浏览器的简单表单，提交到当前地址）
+ * message 不为空时只显示提示（已提交、链接失效等）
+ */
+export function renderReplyPage(options: {
+  summary?: string;
+  projectDir?: string;
+  choices?: string[];
+  multiSelect?: boolean; // 选项是否可以多选（否则显示为单选按钮）
+  approval?: boolean;
+  details?: string; // 审批的操作内容，可以修改后批准
+  message?: string;
+}): string {
+  let body: string;
+  if (options.message) {
+    body = `<p class="message">${escapeHtml(options.message)}</p>`;
+  } else {
+    const inputType = options.multiSelect ? 'checkbox' : 'radio';
+    const choices = (options.choices || []).map(choice =>
+      `<label><input type="${inputType}" name="option" value="${escapeHtml(choice)}"> ${escapeHtml(choice)}</label>`).join('');
+    const buttons = options.approval
+      ? '<button name="decision" value="approved">Approve</button>'
+        + '<button name="decision" value="approved_with_edits">Approve with edits</button>'
+        + '<button name="decision" value="rejected" class="secondary">Reject</button>'
+      : '<button>Send</button>';
+    // 修改后批准时提交 edits 中的内容
+    const edits = options.approval
+      ? `<label for="edits">Action (edit it, then choose "Approve with edits")</label>
+<textarea id="edits" name="edits" rows="6">${escapeHtml(options.details || '')}</textarea>`
+      : '';
+    body = `<p class="project">${escapeHtml(options.projectDir || '')}</p>
+<div class="summary">${escapeHtml(options.summary || '')}</div>
+<form method="post">
+${choices}
+${edits}
+<textarea name="feedback" rows="6" placeholder="Your feedback"></textarea>
+${buttons}
+</form>`;
+  }
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="robots" content="noindex">
+<title>Cursor Feedback</title>
+<style>
+body { font-family: -apple-system, system-ui, sans-serif; margin: 0 auto; max-width: 640px; padding: 16px; }
+.project { color: #666; font-size: 13px; }
+.summary { white-space: pre-wrap; background: #f5f5f5; border-radius: 6px; padding: 12px; }
+label { display: block; margin: 8px 0; }
+textarea { box-sizing: border-box; width: 100%; margin: 12px 0; font: inherit; }
+button { font: inherit; padding: 8px 16px; margin-right: 8px; }
+.secondary { background: #eee; }
+</style>
+</head>
+<body>
+<h3>Cursor Feedback</h3>
+${body}
+</body>
+</html>`;
+}
@@ -0,0 +1,318 @@
+// 浏览器界面：没有插件时由 MCP Server 直接提供页面
+// 在浏览器中实现 script.js 使用的 acquireVsCodeApi()，把插件负责的部分改为调用 Server 的 HTTP API 和事件推送
+(function() {
+  const params = new URLSearchParams(location.search);
+  const token = params.get('token') || '';
+  const STATE_KEY = 'cursorFeedback.state';
+  const HISTORY_KEY = 'cursorFeedback.history';
+  const MAX_HISTORY = 200;
+  // 浏览器中无法使用的功能（选择本地文件、编辑器上下文、导出会话记录）
+  const UNSUPPORTED_BUTTONS = ['selectPathBtn', 'attachSelectionBtn', 'attachActiveFileBtn', 'attachDiagnosticsBtn', 'exportSessionBtn'];
+  // 用户正在输入时向 Server 发送心跳的最小间隔（毫秒）
+  const HEARTBEAT_INTERVAL = 10000;
+
+  let openRequests = [];
+  let currentRequestId = null;
+  let shownRequestId = null;
+  let ownerWorkspace = null;
+  let lastStatus = '';
+  const lastHeartbeat = {};
+
+  function i18n() {
+    return window.i18n || {};
+  }
+
+  // 附加 token；client=browser 用于让 Server 区分浏览器页面和插件
+  function apiUrl(urlPath) {
+    return urlPath + '?token=' + encodeURIComponent(token) + '&client=browser';
+  }
+
+  function api(method, urlPath, body) {
+    return fetch(apiUrl(urlPath), {
+      method: method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    }).then(response => response.json());
+  }
+
+  // 发送给 script.js（与插件的 webview.postMessage 相同）
+  function send(message) {
+    window.postMessage(message, location.origin);
+  }
+
+  function readJson(key, fallback) {
+    try {
+      const value = localStorage.getItem(key);
+      return value ? JSON.parse(value) : fallback;
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  function writeJson(key, value) {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+      console.error('Failed to save to localStorage:', e);
+    }
+  }
+
+  // 请求列表变化后更新标签和当前显示的请求
+  function render() {
+    if (!openRequests.some(r => r.id === currentRequestId)) {
+      currentRequestId = openRequests.length > 0 ? openRequests[0].id : null;
+    }
+    document.title = (openRequests.length > 0 ? '(' + openRequests.length + ') ' : '') + 'Cursor Feedback';
+    send({
+      type: 'updateRequests',
+      payload: {
+        requests: openRequests.map(r => ({ requestId: r.id, summary: r.summary, timestamp: r.timestamp })),
+        currentRequestId: currentRequestId
+      }
+    });
+
+    const request = openRequests.find(r => r.id === currentRequestId);
+    if (!request) {
+      shownRequestId = null;
+      send({ type: 'showWaiting' });
+    } else if (request.id !== shownRequestId) {
+      shownRequestId = request.id;
+      send({
+        type: 'showFeedbackRequest',
+        payload: {
+          requestId: request.id,
+          summary: request.summary,
+          projectDir: request.projectDir,
+          timeout: request.timeout,
+          timestamp: request.timestamp,
+          kind: request.kind || 'feedback',
+          options: request.options || [],
+          multiSelect: request.multiSelect || false,
+          fields: request.fields || [],
+          actionType: request.actionType || '',
+          details: request.details || '',
+          changes: null,
+          hasChanges: false,
+          inlineFiles: request.inlineFiles || false,
+          imageLimits: request.imageLimits || null
+        }
+      });
+    }
+  }
+
+  function removeRequests(ids) {
+    openRequests = openRequests.filter(r => !ids.includes(r.id));
+    render();
+  }
+
+  function updateHistory() {
+    send({ type: 'updateHistory', payload: { entries: readJson(HISTORY_KEY, []) } });
+  }
+
+  function recordHistory(payload) {
+    const request = openRequests.find(r => r.id === payload.requestId);
+    const entry = {
+      requestId: payload.requestId,
+      summary: request ? request.summary : '',
+      projectDir: request ? request.projectDir : payload.project_directory,
+      requestTimestamp: request ? request.timestamp : Date.now(),
+      replyTimestamp: Date.now(),
+      feedback: payload.interactive_feedback,
+      images: (payload.images || []).map(img => ({ name: img.name, thumbnail: img.thumbnail || '' })),
+      attachedFiles: payload.attachedFiles || [],
+      selectedOptions: payload.selectedOptions || [],
+      formValues: payload.formValues,
+      approvalDecision: payload.approvalDecision,
+      diffComments: payload.diffComments,
+      contextItems: payload.contextItems,
+      cancelReason: payload.cancelReason
+    };
+    const entries = [entry].concat(readJson(HISTORY_KEY, []).filter(e => e.requestId !== entry.requestId));
+    writeJson(HISTORY_KEY, entries.slice(0, MAX_HISTORY));
+    updateHistory();
+  }
+
+  function submitFeedback(payload) {
+    api('POST', '/api/feedback/submit', {
+      requestId: payload.requestId,
+      feedback: {
+        interactive_feedback: payload.interactive_feedback,
+        images: payload.images.map(img => ({ name: img.name, data: img.data, size: img.size })),
+        attachedFiles: payload.attachedFiles || [],
+        project_directory: payload.project_directory,
+        selectedOptions: payload.selectedOptions || [],
+        formValues: payload.formValues,
+        approvalDecision: payload.approvalDecision,
+        approvalEdits: payload.approvalEdits,
+        diffComments: payload.diffComments || [],
+        inlineFileContents: payload.inlineFileContents,
+        contextItems: payload.contextItems || []
+      }
+    }).then(result => {
+      if (result.success) {
+        if (result.rejectedImages && result.rejectedImages.length > 0) {
+          showRejectedImages(result.rejectedImages);
+        }
+        recordHistory(payload);
+        removeRequests([payload.requestId]);
+      } else {
+        alert((i18n().submitFailed || 'Submit failed') + ': ' + result.error);
+        shownRequestId = null;
+        render();
+      }
+    }).catch(() => {
+      alert((i18n().submitFailed || 'Submit failed') + ': ' + (i18n().cannotConnectMCP || 'Cannot connect to MCP Server'));
+    });
+  }
+
+  // 提示用户哪些图片没有发送（页面无法处理或被 Server 拒绝）
+  function showRejectedImages(images) {
+    const list = images.map(img => img.name + ' (' + img.reason + ')').join(', ');
+    alert((i18n().imagesRejected || 'Some images were not sent: {images}').replace('{images}', list));
+  }
+
+  function cancelRequest(requestId, reason) {
+    if (reason === 'ended' && !confirm(i18n().endSessionConfirm || 'End the conversation?')) {
+      return;
+    }
+    api('POST', '/api/feedback/cancel', { requestId: requestId, reason: reason }).then(result => {
+      if (!result.success) {
+        alert((i18n().cancelFailed || 'Failed') + ': ' + result.error);
+        return;
+      }
+      const cancelled = result.cancelled || [requestId];
+      for (const id of cancelled) {
+        const request = openRequests.find(r => r.id === id);
+        if (request) {
+          recordHistory({
+            requestId: id,
+            interactive_feedback: '',
+            images: [],
+            attachedFiles: [],
+            project_directory: request.projectDir,
+            cancelReason: reason
+          });
+        }
+      }
+      removeRequests(cancelled);
+    }).catch(() => {
+      alert((i18n().cancelFailed || 'Failed') + ': ' + (i18n().cannotConnectMCP || 'Cannot connect to MCP Server'));
+    });
+  }
+
+  // 正在输入：通知 Server 延长等待时间（浏览器页面本身保留了输入，不需要保存草稿）
+  function sendHeartbeat(requestId) {
+    if (Date.now() - (lastHeartbeat[requestId] || 0) < HEARTBEAT_INTERVAL) return;
+    lastHeartbeat[requestId] = Date.now();
+    api('POST', '/api/feedback/heartbeat', { requestId: requestId }).catch(() => {});
+  }
+
+  function checkServer() {
+    api('GET', '/api/health').then(result => {
+      lastStatus = result.pendingCount > 0 ? 'waiting (' + result.pendingCount + ')' : 'idle';
+      send({ type: 'serverStatus', payload: { connected: true } });
+    }).catch(() => {
+      lastStatus = 'disconnected';
+      send({ type: 'serverStatus', payload: { connected: false } });
+    }).then(() => {
+      send({
+        type: 'updateDebugInfo',
+        payload: {
+          portRange: location.host,
+          workspacePath: ownerWorkspace || '-',
+          activePort: location.port,
+          connectedPorts: lastStatus === 'disconnected' ? [] : [location.port],
+          lastStatus: lastStatus
+        }
+      });
+    });
+  }
+
+  // 切换语言：通过 ?lang= 参数重新加载页面
+  function switchLanguage() {
+    params.set('lang', document.documentElement.lang === 'en' ? 'zh-CN' : 'en');
+    location.search = params.toString();
+  }
+
+  // 订阅 Server 推送的事件（断线后 EventSource 会自动重连，重连时重新收到快照）
+  function subscribe() {
+    const events = new EventSource(apiUrl('/api/events'));
+    events.addEventListener('snapshot', e => {
+      const data = JSON.parse(e.data);
+      openRequests = data.requests || [];
+      ownerWorkspace = data.ownerWorkspace;
+      shownRequestId = null;
+      render();
+      send({ type: 'serverStatus', payload: { connected: true } });
+    });
+    events.addEventListener('request-created', e => {
+      const data = JSON.parse(e.data);
+      ownerWorkspace = data.ownerWorkspace;
+      openRequests = openRequests.filter(r => r.id !== data.request.id).concat([data.request]);
+      render();
+    });
+    events.addEventListener('request-extended', e => {
+      const data = JSON.parse(e.data);
+      const request = openRequests.find(r => r.id === data.requestId);
+      if (request) {
+        request.timeout = data.timeout;
+        send({ type: 'updateTimeout', payload: { requestId: data.requestId, timeout: data.timeout } });
+      }
+    });
+    for (const type of ['request-completed', 'request-cancelled', 'request-timed-out']) {
+      events.addEventListener(type, e => removeRequests([JSON.parse(e.data).requestId]));
+    }
+    events.onerror = () => send({ type: 'serverStatus', payload: { connected: false } });
+  }
+
+  window.acquireVsCodeApi = function() {
+    return {
+      getState: () => readJson(STATE_KEY, undefined),
+      setState: state => writeJson(STATE_KEY, state),
+      postMessage: message => {
+        const payload = message.payload || {};
+        switch (message.type) {
+          case 'ready':
+            updateHistory();
+            subscribe();
+            break;
+          case 'checkServer':
+            checkServer();
+            break;
+          case 'selectRequest':
+            currentRequestId = payload.requestId;
+            render();
+            break;
+          case 'submitFeedback':
+            submitFeedback(payload);
+            break;
+          case 'cancelRequest':
+            cancelRequest(payload.requestId, payload.reason);
+            break;
+          case 'typing':
+            sendHeartbeat(payload.requestId);
+            break;
+          case 'imagesRejected':
+            showRejectedImages(payload.images);
+            break;
+          case 'clearHistory':
+            if (confirm(i18n().clearHistoryConfirm || 'Clear all history?')) {
+              writeJson(HISTORY_KEY, []);
+              updateHistory();
+            }
+            break;
+          case 'switchLanguage':
+            switchLanguage();
+            break;
+        }
+      }
+    };
+  };
+
+  document.addEventListener('DOMContentLoaded', () => {
+    for (const id of UNSUPPORTED_BUTTONS) {
+      const button = document.getElementById(id);
+      if (button) button.style.display = 'none';
+    }
+  });
+})();
@@ -38,19 +38,235 @@
   const fileList = document.getElementById('fileList');
   const timeoutInfo = document.getElementById('timeoutInfo');
   const toggleKeyModeBtn = document.getElementById('toggleKeyModeBtn');
+  const historyBtn = document.getElementById('historyBtn');
+  const historyPanel = document.getElementById('historyPanel');
+  const historySearch = document.getElementById('historySearch');
+  const historyList = document.getElementById('historyList');
+  const clearHistoryBtn = document.getElementById('clearHistoryBtn');
+  const requestTabs = document.getElementById('requestTabs');
+  const optionsArea = document.getElementById('optionsArea');
+  const optionsHint = document.getElementById('optionsHint');
+  const optionsList = document.getElementById('optionsList');
+  const formArea = document.getElementById('formArea');
+  const summarySection = document.getElementById('summarySection');
+  const summaryTitle = document.getElementById('summaryTitle');
+  const approvalArea = document.getElementById('approvalArea');
+  const approvalDetails = document.getElementById('approvalDetails');
+  const approvalButtons = document.getElementById('approvalButtons');
+  const submitGroup = document.getElementById('submitGroup');
+  const changesSection = document.getElementById('changesSection');
+  const changesList = document.getElementById('changesList');
+  const inlineFilesBtn = document.getElementById('inlineFilesBtn');
+  const templateBar = document.getElementById('templateBar');
+  const slashMenu = document.getElementById('slashMenu');
 
   // 语言切换按钮
   langSwitchBtn.addEventListener('click', () => {
     vscode.postMessage({ type: 'switchLanguage' });
   });
 
+  // 历史记录面板
+  let historyEntries = [];
+  historyBtn.addEventListener('click', () => {
+    historyPanel.classList.toggle('hidden');
+    if (!historyPanel.classList.contains('hidden')) {
+      renderHistory();
+      historySearch.focus();
+    }
+  });
+  historySearch.addEventListener('input', () => renderHistory());
+  clearHistoryBtn.addEventListener('click', () => vscode.postMessage({ type: 'clearHistory' }));
+  document.getElementById('exportSessionBtn').addEventListener('click', () => vscode.postMessage({ type: 'exportSession' }));
+
+  // 渲染历史记录（按搜索关键字过滤）
+  function renderHistory() {
+    const keyword = historySearch.value.trim().toLowerCase();
+    const entries = keyword
+      ? historyEntries.filter(e =>
+          [e.summary, e.feedback, e.projectDir, ...(e.attachedFiles || [])]
+            .some(text => (text || '').toLowerCase().includes(keyword)))
+      : historyEntries;
+
+    historyList.innerHTML = '';
+    if (entries.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'history-empty';
+      empty.textContent = i18n.noHistory || 'No feedback history yet';
+      historyList.appendChild(empty);
+      return;
+    }
+
+    for (const entry of entries) {
+      const item = document.createElement('details');
+      item.className = 'history-item';
+
+      const header = document.createElement('summary');
+      header.className = 'history-header';
+      const time = document.createElement('span');
+      time.className = 'history-time';
+      time.textContent = new Date(entry.replyTimestamp).toLocaleString();
+      const title = document.createElement('span');
+      title.className = 'history-title';
+      title.textContent = (entry.summary || '').split('\n')[0];
+      header.appendChild(time);
+      header.appendChild(title);
+      item.appendChild(header);
+
+      const summary = document.createElement('div');
+      summary.className = 'summary-content history-summary';
+      summary.innerHTML = renderMarkdown(entry.summary);
+      item.appendChild(summary);
+
+      const reply = document.createElement('div');
+      reply.className = 'history-reply';
+      const replyLabel = document.createElement('div');
+      replyLabel.className = 'history-reply-label';
+      replyLabel.textContent = '💬 ' + (i18n.yourReply || 'Your reply');
+      const replyText = document.createElement('div');
+      replyText.className = 'history-reply-text';
+      replyText.textContent = entry.feedback || '-';
+      reply.appendChild(replyLabel);
+      if (entry.selectedOptions && entry.selectedOptions.length > 0) {
+        const options = document.createElement('div');
+        options.className = 'options-list';
+        for (const option of entry.selectedOptions) {
+          const tag = document.createElement('span');
+          tag.className = 'option-btn selected';
+          tag.textContent = option;
+          options.appendChild(tag);
+        }
+        reply.appendChild(options);
+      }
+      reply.appendChild(replyText);
+      if (entry.cancelReason) {
+        const decision = document.createElement('div');
+        decision.className = 'history-decision ' + entry.cancelReason;
+        decision.textContent = entry.cancelReason === 'ended'
+          ? '⏹️ ' + (i18n.sessionEnded || 'Conversation ended')
+          : '⏭️ ' + (i18n.requestDismissed || 'Dismissed');
+        reply.insertBefore(decision, replyText);
+      }
+      if (entry.autoReply) {
+        const decision = document.createElement('div');
+        decision.className = 'history-decision auto-reply';
+        decision.textContent = '🤖 ' + (i18n.autoReplied || 'Auto-replied') + ' · ' + entry.autoReply.rule
+          + ' (' + entry.autoReply.count + '/' + entry.autoReply.maxRounds + ')';
+        reply.insertBefore(decision, replyText);
+      }
+      if (entry.approvalDecision) {
+        const decision = document.createElement('div');
+        decision.className = 'history-decision ' + entry.approvalDecision;
+        decision.textContent = ({
+          approved: '✅ ' + (i18n.approve || 'Approve'),
+          approved_with_edits: '✏️ ' + (i18n.approveWithEdits || 'Approve with edits'),
+          rejected: '⛔ ' + (i18n.reject || 'Reject')
+        })[entry.approvalDecision] || entry.approvalDecision;
+        reply.insertBefore(decision, replyText);
+      }
+      if (entry.diffComments && entry.diffComments.length > 0) {
+        for (const c of entry.diffComments) {
+          const comment = document.createElement('div');
+          comment.className = 'history-reply-text';
+          comment.textContent = '💬 ' + c.path + ' ' + c.hunk + '\n' + c.comment;
+          reply.appendChild(comment);
+        }
+      }
+      if (entry.formValues) {
+        const answers = document.createElement('pre');
+        answers.className = 'history-answers';
+        answers.textContent = JSON.stringify(entry.formValues, null, 2);
+        reply.appendChild(answers);
+      }
+
+      if (entry.images && entry.images.length > 0) {
+        const thumbs = document.createElement('div');
+        thumbs.className = 'image-preview';
+        for (const img of entry.images) {
+          if (!img.thumbnail) continue;
+          const thumb = document.createElement('img');
+          thumb.src = img.thumbnail;
+          thumb.title = img.name;
+          thumbs.appendChild(thumb);
+        }
+        reply.appendChild(thumbs);
+      }
+
+      const attachments = (entry.attachedFiles || []).map(path => ({ label: '📄 ' + path, title: path }))
+        .concat((entry.contextItems || []).map(ctx => ({ label: contextItemLabel(ctx), title: ctx.path })));
+      if (attachments.length > 0) {
+        const files = document.createElement('div');
+        files.className = 'file-list';
+        for (const attachment of attachments) {
+          const file = document.createElement('div');
+          file.className = 'file-item';
+          const pathSpan = document.createElement('span');
+          pathSpan.className = 'file-path';
+          pathSpan.textContent = attachment.label;
+          pathSpan.title = attachment.title;
+          file.appendChild(pathSpan);
+          files.appendChild(file);
+        }
+        reply.appendChild(files);
+      }
+
+      item.appendChild(reply);
+      historyList.appendChild(item);
+    }
+  }
+
+  // 生成图片缩略图（用于历史记录，避免保存原图）
+  function createThumbnail(dataUrl) {
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => {
+        const maxSize = 96;
+        const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      };
+      img.onerror = () => resolve('');
+      img.src = dataUrl;
+    });
+  }
+
   let uploadedImages = [];
+  // AI 支持的图片格式，其他格式转换为 PNG
+  const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+  // 图片限制（由请求中的 imageLimits 更新，旧版 Server 没有时使用默认值）
+  const DEFAULT_IMAGE_LIMITS = { maxDimension: 1568, maxImageBytes: 5 * 1024 * 1024 };
+  let imageLimits = DEFAULT_IMAGE_LIMITS;
   let attachedFiles = [];
+  // 从编辑器附加的选中代码 / 诊断信息
+  let contextItems = [];
   let currentRequestId = '';
   let currentProjectDir = '';
   let requestTimestamp = 0;
   let requestTimeout = 300;
   let countdownInterval = null;
+  // 所有待处理请求的 ID，以及切换标签时暂存的各请求草稿
+  let openRequestIds = [];
+  const drafts = {};
+  // 当前请求的快捷选项
+  let requestOptions = [];
+  let multiSelect = false;
+  let selectedOptions = [];
+  // 当前请求的表单字段（ask_user），以及切换标签时恢复的表单值
+  let formFields = [];
+  let restoredFormValues = null;
+  // 当前请求类型：feedback / form / approval
+  let currentKind = 'feedback';
+  let originalDetails = '';
+  // 代码变更的评论（切换标签时恢复）
+  let restoredDiffComments = null;
+  // 是否内联附加文件内容（每个请求默认使用 Server 配置，可以单独切换）
+  let inlineFileContents = false;
+  inlineFilesBtn.addEventListener('click', () => {
+    inlineFileContents = !inlineFileContents;
+    inlineFilesBtn.classList.toggle('active', inlineFileContents);
+  });
 
   // 快捷键模式：false = Ctrl+Enter 提交（默认），true = Enter 提交
   let enterToSubmit = localStorage.getItem('cursorFeedback_enterToSubmit') === 'true';
@@ -95,11 +311,145 @@
   // 输入时保存文本
   feedbackInput.addEventListener('input', () => {
     vscode.setState({ text: feedbackInput.value });
+    notifyTyping();
+  });
+
+  // 正在输入：把草稿发给插件（请求超时后带到下一个请求），插件据此通知 Server 延长等待时间
+  // 输入期间最多每秒发送一次
+  let typingTimer = null;
+  function notifyTyping() {
+    if (!currentRequestId || typingTimer) return;
+    typingTimer = setTimeout(() => {
+      typingTimer = null;
+      if (!currentRequestId) return;
+      vscode.postMessage({
+        type: 'typing',
+        payload: {
+          requestId: currentRequestId,
+          draft: {
+            text: feedbackInput.value,
+            files: attachedFiles.slice(),
+            contextItems: contextItems.slice(),
+            selectedOptions: selectedOptions.slice(),
+            formValues: collectFormValues()
+          }
+        }
+      });
+    }, 1000);
+  }
+  formArea.addEventListener('input', () => notifyTyping());
+
+  // 回复模板：模板按钮和 / 命令（变量由插件在提交时展开）
+  let templates = [];
+  let slashMatches = [];
+  let slashIndex = 0;
+
+  function renderTemplates() {
+    templateBar.innerHTML = '';
+    templateBar.classList.toggle('hidden', templates.length === 0);
+    for (const template of templates) {
+      const btn = document.createElement('button');
+      btn.className = 'option-btn';
+      btn.textContent = '/' + template.name;
+      btn.title = template.text;
+      btn.addEventListener('click', () => {
+        insertTemplate(template, feedbackInput.selectionStart, feedbackInput.selectionEnd);
+      });
+      templateBar.appendChild(btn);
+    }
+    updateSlashMenu();
+  }
+
+  // 用模板文本替换 start-end 之间的内容（选中的文本或输入的 /命令）
+  function insertTemplate(template, start, end) {
+    feedbackInput.setRangeText(template.text, start, end, 'end');
+    feedbackInput.focus();
+    feedbackInput.dispatchEvent(new Event('input'));
+  }
+
+  // 光标前正在输入的 /命令（位于行首或空白之后），没有时返回 null
+  function getSlashQuery() {
+    const caret = feedbackInput.selectionStart;
+    if (caret !== feedbackInput.selectionEnd) return null;
+    const match = /(^|\s)\/([^\s\/]*)$/.exec(feedbackInput.value.slice(0, caret));
+    return match ? { query: match[2].toLowerCase(), start: caret - match[2].length - 1 } : null;
+  }
+
+  // 显示与 /命令匹配的模板（名称以输入开头的排在前面）
+  function updateSlashMenu() {
+    const slash = templates.length > 0 && document.activeElement === feedbackInput ? getSlashQuery() : null;
+    slashMatches = slash
+      ? templates
+        .filter(t => t.name.toLowerCase().includes(slash.query))
+        .sort((a, b) => Number(!a.name.toLowerCase().startsWith(slash.query)) - Number(!b.name.toLowerCase().startsWith(slash.query)))
+      : [];
+    slashIndex = Math.min(slashIndex, Math.max(0, slashMatches.length - 1));
+    slashMenu.classList.toggle('hidden', slashMatches.length === 0);
+    slashMenu.innerHTML = '';
+    slashMatches.forEach((template, index) => {
+      const item = document.createElement('div');
+      item.className = 'slash-item' + (index === slashIndex ? ' active' : '');
+      const name = document.createElement('span');
+      name.className = 'slash-name';
+      name.textContent = '/' + template.name;
+      const preview = document.createElement('span');
+      preview.className = 'slash-preview';
+      preview.textContent = template.text.split('\n')[0];
+      item.append(name, preview);
+      // mousedown 时插入，避免输入框先失去焦点
+      item.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        applySlashMatch(index);
+      });
+      slashMenu.appendChild(item);
+    });
+  }
+
+  function applySlashMatch(index) {
+    const slash = getSlashQuery();
+    if (slash && slashMatches[index]) {
+      insertTemplate(slashMatches[index], slash.start, feedbackInput.selectionStart);
+    }
+  }
+
+  feedbackInput.addEventListener('input', () => {
+    slashIndex = 0;
+    updateSlashMenu();
+  });
+  feedbackInput.addEventListener('click', () => updateSlashMenu());
+  feedbackInput.addEventListener('blur', () => slashMenu.classList.add('hidden'));
+  // 菜单打开时由方向键选择模板，Enter / Tab 插入（先于提交快捷键处理）
+  feedbackInput.addEventListener('keydown', (e) => {
+    if (slashMenu.classList.contains('hidden') || isComposing || e.isComposing) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      slashIndex = (slashIndex + (e.key === 'ArrowDown' ? 1 : slashMatches.length - 1)) % slashMatches.length;
+      updateSlashMenu();
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      applySlashMatch(slashIndex);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      slashMenu.classList.add('hidden');
+    }
   });
 
   // 图片上传
   uploadBtn.addEventListener('click', () => imageInput.click());
   selectPathBtn.addEventListener('click', () => vscode.postMessage({ type: 'selectPath' }));
+  document.getElementById('attachSelectionBtn').addEventListener('click', () => vscode.postMessage({ type: 'attachSelection' }));
+  document.getElementById('attachActiveFileBtn').addEventListener('click', () => vscode.postMessage({ type: 'attachActiveFile' }));
+  document.getElementById('attachDiagnosticsBtn').addEventListener('click', () => vscode.postMessage({ type: 'attachDiagnostics' }));
+
+  // 编辑器上下文的显示名称
+  function contextItemLabel(ctx) {
+    const name = ctx.path.split(/[\\/]/).pop();
+    if (ctx.kind === 'selection') {
+      return '✂️ ' + name + ':' + ctx.startLine + '-' + ctx.endLine;
+    }
+    return '⚠️ ' + name + ' (' + ctx.diagnostics.length + ')';
+  }
 
   // 添加已选文件到列表
   function addAttachedFile(path) {
@@ -133,44 +483,467 @@
     fileList.appendChild(item);
   }
 
+  // 添加编辑器上下文到列表（同一文件的诊断只保留最新一份）
+  function addContextItem(ctx) {
+    if (ctx.kind === 'diagnostics') {
+      const existing = contextItems.find(c => c.kind === 'diagnostics' && c.path === ctx.path);
+      if (existing) {
+        contextItems.splice(contextItems.indexOf(existing), 1);
+        fileList.querySelector('[data-context="' + CSS.escape(existing.path) + '"]')?.remove();
+      }
+    }
+    contextItems.push(ctx);
+
+    const item = document.createElement('div');
+    item.className = 'file-item';
+    if (ctx.kind === 'diagnostics') item.dataset.context = ctx.path;
+
+    const pathSpan = document.createElement('span');
+    pathSpan.className = 'file-path';
+    pathSpan.textContent = contextItemLabel(ctx);
+    pathSpan.title = ctx.kind === 'selection'
+      ? ctx.text
+      : ctx.diagnostics.map(d => d.severity + ' L' + d.line + ': ' + d.message).join('\n') || ctx.path;
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'file-remove';
+    removeBtn.textContent = '×';
+    removeBtn.onclick = () => {
+      const idx = contextItems.indexOf(ctx);
+      if (idx > -1) contextItems.splice(idx, 1);
+      item.remove();
+    };
+
+    item.appendChild(pathSpan);
+    item.appendChild(removeBtn);
+    fileList.appendChild(item);
+  }
+
   imageInput.addEventListener('change', (e) => {
     for (const file of e.target.files) addImageFile(file);
   });
 
-  // 添加图片到预览
+  // 添加图片到预览（缩小、转换格式后；无法处理的图片告知用户）
   function addImageFile(file) {
+    const name = file.name || ('pasted-image-' + Date.now() + '.png');
     const reader = new FileReader();
     reader.onload = (e) => {
-      const base64 = e.target.result;
-      const imgData = {
-        name: file.name || ('pasted-image-' + Date.now() + '.png'),
-        data: base64.split(',')[1],
-        size: file.size
-      };
-      uploadedImages.push(imgData);
-      
-      const container = document.createElement('div');
-      container.className = 'image-preview-item';
-      
-      const img = document.createElement('img');
-      img.src = base64;
-      
-      const removeBtn = document.createElement('button');
-      removeBtn.className = 'image-remove';
-      removeBtn.textContent = '×';
-      removeBtn.onclick = () => {
-        const index = uploadedImages.indexOf(imgData);
-        if (index > -1) uploadedImages.splice(index, 1);
-        container.remove();
-      };
-      
-      container.appendChild(img);
-      container.appendChild(removeBtn);
-      imagePreview.appendChild(container);
+      processImage(e.target.result, file.type).then(processed => {
+        if (!processed) {
+          reportRejectedImage(name, i18n.imageDecodeFailed || 'unsupported or corrupted image');
+          return;
+        }
+        const data = processed.dataUrl.split(',')[1];
+        const size = Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+        if (size > imageLimits.maxImageBytes) {
+          const limit = (imageLimits.maxImageBytes / 1024 / 1024).toFixed(1) + ' MB';
+          reportRejectedImage(name, (i18n.imageTooLarge || 'larger than {size} after downscaling').replace('{size}', limit));
+          return;
+        }
+        const imgData = {
+          // 转换格式后同时修改扩展名
+          name: processed.mimeType === file.type ? name : name.replace(/\.[^.]*$/, '') + '.' + processed.mimeType.split('/')[1].replace('jpeg', 'jpg'),
+          data: data,
+          size: size,
+          mimeType: processed.mimeType,
+          thumbnail: ''
+        };
+        addImagePreview(imgData);
+        createThumbnail(processed.dataUrl).then(thumbnail => { imgData.thumbnail = thumbnail; });
+      });
     };
     reader.readAsDataURL(file);
   }
 
+  // 缩小超过最大边长的图片，把 AI 不支持的格式（如 BMP）转换为 PNG
+  // 返回 { dataUrl, mimeType }，无法解码时返回 null
+  function processImage(dataUrl, type) {
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => {
+        const maxDimension = imageLimits.maxDimension;
+        const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(img.width, img.height)) : 1;
+        // GIF 重新绘制会丢失动画，只缩小静态格式
+        if (SUPPORTED_IMAGE_TYPES.includes(type) && (scale === 1 || type === 'image/gif')) {
+          resolve({ dataUrl: dataUrl, mimeType: type });
+          return;
+        }
+        const mimeType = type === 'image/jpeg' || type === 'image/webp' ? type : 'image/png';
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        const ctx = canvas.getContext('2d');
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve({ dataUrl: canvas.toDataURL(mimeType, 0.9), mimeType: mimeType });
+      };
+      img.onerror = () => resolve(null);
+      img.src = dataUrl;
+    });
+  }
+
+  function reportRejectedImage(name, reason) {
+    vscode.postMessage({ type: 'imagesRejected', payload: { images: [{ name: name, reason: reason }] } });
+  }
+
+  // 显示图片预览（也用于恢复草稿）
+  function addImagePreview(imgData) {
+    uploadedImages.push(imgData);
+
+    const container = document.createElement('div');
+    container.className = 'image-preview-item';
+    
+    const img = document.createElement('img');
+    img.src = 'data:' + imgData.mimeType + ';base64,' + imgData.data;
+    
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'image-remove';
+    removeBtn.textContent = '×';
+    removeBtn.onclick = () => {
+      const index = uploadedImages.indexOf(imgData);
+      if (index > -1) uploadedImages.splice(index, 1);
+      container.remove();
+    };
+    
+    container.appendChild(img);
+    container.appendChild(removeBtn);
+    imagePreview.appendChild(container);
+  }
+
+  // 清空输入框和附件
+  function resetForm() {
+    feedbackInput.value = '';
+    uploadedImages = [];
+    attachedFiles = [];
+    contextItems = [];
+    selectedOptions = [];
+    imagePreview.innerHTML = '';
+    fileList.innerHTML = '';
+  }
+
+  // 取出当前输入作为草稿，并清空表单
+  function takeDraft() {
+    const draft = {
+      text: feedbackInput.value,
+      images: uploadedImages.slice(),
+      files: attachedFiles.slice(),
+      contextItems: contextItems.slice(),
+      selectedOptions: selectedOptions.slice(),
+      formValues: collectFormValues(),
+      diffComments: collectDiffComments()
+    };
+    resetForm();
+    return draft;
+  }
+
+  // 恢复草稿到表单
+  function restoreDraft(draft) {
+    resetForm();
+    feedbackInput.value = draft.text;
+    for (const imgData of draft.images || []) addImagePreview(imgData);
+    for (const path of draft.files) addAttachedFile(path);
+    for (const ctx of draft.contextItems || []) addContextItem(ctx);
+    selectedOptions = draft.selectedOptions || [];
+    restoredFormValues = draft.formValues || null;
+    restoredDiffComments = draft.diffComments || null;
+    vscode.setState({ text: feedbackInput.value });
+  }
+
+  // 切换到另一个请求：暂存仍在等待的请求的草稿；已结束请求的输入保留给新请求
+  function switchRequest(requestId) {
+    if (requestId === currentRequestId) return;
+    if (currentRequestId && openRequestIds.includes(currentRequestId)) {
+      drafts[currentRequestId] = takeDraft();
+    }
+    if (drafts[requestId]) {
+      restoreDraft(drafts[requestId]);
+      delete drafts[requestId];
+    }
+  }
+
+  // 渲染快捷选项：单选时点击即提交，多选时切换选中状态
+  function renderOptions() {
+    selectedOptions = selectedOptions.filter(o => requestOptions.includes(o));
+    optionsList.innerHTML = '';
+    optionsArea.classList.toggle('hidden', requestOptions.length === 0);
+    optionsHint.textContent = multiSelect
+      ? (i18n.optionsMultiHint || 'Select one or more options, then submit')
+      : (i18n.optionsSingleHint || 'Click an option to reply (text below is sent as a comment)');
+    for (const option of requestOptions) {
+      const btn = document.createElement('button');
+      btn.className = 'option-btn' + (selectedOptions.includes(option) ? ' selected' : '');
+      btn.textContent = option;
+      btn.title = option;
+      btn.onclick = () => {
+        if (multiSelect) {
+          const idx = selectedOptions.indexOf(option);
+          if (idx > -1) {
+            selectedOptions.splice(idx, 1);
+          } else {
+            selectedOptions.push(option);
+          }
+          btn.classList.toggle('selected');
+        } else {
+          selectedOptions = [option];
+          submitFeedback();
+        }
+      };
+      optionsList.appendChild(btn);
+    }
+  }
+
+  // 渲染表单字段
+  function renderForm() {
+    const values = restoredFormValues || {};
+    restoredFormValues = null;
+    formArea.innerHTML = '';
+    formArea.classList.toggle('hidden', formFields.length === 0);
+
+    for (const field of formFields) {
+      const row = document.createElement('div');
+      row.className = 'form-field';
+
+      const label = document.createElement('label');
+      label.className = 'form-label';
+      label.textContent = (field.label || field.name) + (field.required ? ' *' : '');
+      row.appendChild(label);
+
+      if (field.description) {
+        const desc = document.createElement('div');
+        desc.className = 'form-description';
+        desc.textContent = field.description;
+        row.appendChild(desc);
+      }
+
+      const value = field.name in values ? values[field.name] : field.default;
+      let input;
+      if (field.type === 'boolean') {
+        input = document.createElement('input');
+        input.type = 'checkbox';
+        input.checked = value === true;
+        label.prepend(input);
+      } else if (field.type === 'enum') {
+        input = document.createElement('select');
+        input.className = 'form-input';
+        const empty = document.createElement('option');
+        empty.value = '';
+        empty.textContent = '--';
+        input.appendChild(empty);
+        for (const option of field.options || []) {
+          const opt = document.createElement('option');
+          opt.value = option;
+          opt.textContent = option;
+          input.appendChild(opt);
+        }
+        input.value = value !== undefined ? String(value) : '';
+        row.appendChild(input);
+      } else {
+        input = document.createElement('input');
+        input.className = 'form-input';
+        input.type = field.type === 'number' ? 'number' : 'text';
+        if (field.min !== undefined) input.min = field.min;
+        if (field.max !== undefined) input.max = field.max;
+        input.value = value !== undefined && value !== null ? String(value) : '';
+        if (field.type === 'path') {
+          const pathRow = document.createElement('div');
+          pathRow.className = 'form-path-row';
+          const browseBtn = document.createElement('button');
+          browseBtn.className = 'attachment-btn';
+          browseBtn.textContent = '📁';
+          browseBtn.title = i18n.selectFilesOrFolders || 'Select files/folders';
+          browseBtn.onclick = () => vscode.postMessage({ type: 'selectPath', payload: { target: field.name } });
+          pathRow.appendChild(input);
+          pathRow.appendChild(browseBtn);
+          row.appendChild(pathRow);
+        } else {
+          row.appendChild(input);
+        }
+      }
+      input.dataset.field = field.name;
+
+      const error = document.createElement('div');
+      error.className = 'form-error';
+      error.dataset.errorFor = field.name;
+      row.appendChild(error);
+
+      formArea.appendChild(row);
+    }
+  }
+
+  // 读取表单值（未填写的字段不包含在结果中）
+  function collectFormValues() {
+    const values = {};
+    for (const field of formFields) {
+      const input = formArea.querySelector('[data-field="' + CSS.escape(field.name) + '"]');
+      if (!input) continue;
+      if (field.type === 'boolean') {
+        values[field.name] = input.checked;
+      } else if (input.value !== '') {
+        values[field.name] = field.type === 'number' ? Number(input.value) : input.value;
+      }
+    }
+    return values;
+  }
+
+  // 校验表单，显示错误信息，返回是否通过
+  function validateForm(values) {
+    let valid = true;
+    for (const field of formFields) {
+      const value = values[field.name];
+      let message = '';
+      if (value === undefined) {
+        if (field.required) message = i18n.fieldRequired || 'This field is required';
+      } else if (field.type === 'number') {
+        if (!Number.isFinite(value)) message = i18n.fieldInvalidNumber || 'Please enter a valid number';
+        else if (field.min !== undefined && value < field.min) message = (i18n.fieldMin || 'Must be at least') + ' ' + field.min;
+        else if (field.max !== undefined && value > field.max) message = (i18n.fieldMax || 'Must be at most') + ' ' + field.max;
+      } else if (field.pattern && typeof value === 'string' && !new RegExp(field.pattern).test(value)) {
+        message = (i18n.fieldPattern || 'Must match pattern') + ' ' + field.pattern;
+      }
+      const error = formArea.querySelector('[data-error-for="' + CSS.escape(field.name) + '"]');
+      if (error) error.textContent = message;
+      if (message) valid = false;
+    }
+    return valid;
+  }
+
+  // 切换审批模式：警告样式 + 批准/拒绝按钮，隐藏普通提交按钮
+  function renderApproval(payload, keepEdits) {
+    const isApproval = currentKind === 'approval';
+    summarySection.classList.toggle('approval', isApproval);
+    summaryTitle.textContent = isApproval
+      ? '⚠️ ' + (i18n.approvalRequired || 'Approval required') + (payload.actionType ? ' · ' + payload.actionType : '')
+      : '📋 ' + (i18n.aiSummary || 'AI Summary');
+    approvalArea.classList.toggle('hidden', !isApproval || !payload.details);
+    approvalButtons.classList.toggle('hidden', !isApproval);
+    submitGroup.classList.toggle('hidden', isApproval);
+    originalDetails = payload.details || '';
+    if (!keepEdits) {
+      approvalDetails.value = originalDetails;
+      document.getElementById('approveBtn').disabled = false;
+    }
+  }
+
+  // 渲染代码变更：每个文件可折叠，每个 hunk 可添加评论
+  // changes 为 null 表示扩展仍在解析中
+  function renderChanges(changes, hasChanges) {
+    const comments = restoredDiffComments || [];
+    restoredDiffComments = null;
+    changesList.innerHTML = '';
+    changesSection.classList.toggle('hidden', !hasChanges);
+    if (!hasChanges) return;
+
+    if (!changes) {
+      const loading = document.createElement('div');
+      loading.className = 'history-empty';
+      loading.textContent = i18n.loadingChanges || 'Loading changes...';
+      changesList.appendChild(loading);
+      return;
+    }
+
+    changes.forEach((change, index) => {
+      const file = document.createElement('details');
+      file.className = 'change-file';
+      file.open = changes.length === 1;
+
+      const header = document.createElement('summary');
+      header.className = 'change-header';
+      const name = document.createElement('span');
+      name.className = 'change-path';
+      name.textContent = change.path;
+      name.title = change.absolutePath;
+      const stats = document.createElement('span');
+      stats.className = 'change-stats';
+      stats.innerHTML = '<span class="add">+' + change.additions + '</span> <span class="del">-' + change.deletions + '</span>';
+      const openBtn = document.createElement('button');
+      openBtn.className = 'attachment-btn';
+      openBtn.textContent = '↔';
+      openBtn.title = i18n.openDiff || 'Open in diff editor';
+      openBtn.onclick = (e) => {
+        e.preventDefault();
+        vscode.postMessage({ type: 'openDiff', payload: { requestId: currentRequestId, index } });
+      };
+      header.appendChild(name);
+      header.appendChild(stats);
+      header.appendChild(openBtn);
+      file.appendChild(header);
+
+      if (change.hunks.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'history-empty';
+        empty.textContent = change.error || i18n.noChanges || 'No changes found';
+        file.appendChild(empty);
+      }
+
+      for (const hunk of change.hunks) {
+        const hunkEl = document.createElement('div');
+        hunkEl.className = 'diff-hunk';
+
+        const hunkHeader = document.createElement('div');
+        hunkHeader.className = 'diff-hunk-header';
+        const headerText = document.createElement('span');
+        headerText.textContent = hunk.header;
+        const commentBtn = document.createElement('button');
+        commentBtn.className = 'diff-comment-btn';
+        commentBtn.textContent = '💬';
+        commentBtn.title = i18n.addComment || 'Comment on this hunk';
+        hunkHeader.appendChild(headerText);
+        hunkHeader.appendChild(commentBtn);
+        hunkEl.appendChild(hunkHeader);
+
+        const code = document.createElement('pre');
+        code.className = 'diff-lines';
+        for (const line of hunk.lines) {
+          const lineEl = document.createElement('div');
+          lineEl.className = 'diff-line ' + line.type;
+          lineEl.textContent = (line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ') + line.text;
+          code.appendChild(lineEl);
+        }
+        hunkEl.appendChild(code);
+
+        const comment = document.createElement('textarea');
+        comment.className = 'diff-comment';
+        comment.placeholder = i18n.commentPlaceholder || 'Comment for this hunk...';
+        comment.dataset.path = change.path;
+        comment.dataset.hunk = hunk.header;
+        const saved = comments.find(c => c.path === change.path && c.hunk === hunk.header);
+        comment.value = saved ? saved.comment : '';
+        comment.classList.toggle('hidden', !comment.value);
+        commentBtn.onclick = () => {
+          comment.classList.remove('hidden');
+          comment.focus();
+        };
+        hunkEl.appendChild(comment);
+
+        file.appendChild(hunkEl);
+      }
+
+      changesList.appendChild(file);
+    });
+  }
+
+  // 读取 hunk 评论
+  function collectDiffComments() {
+    return Array.from(changesList.querySelectorAll('.diff-comment'))
+      .filter(el => el.value.trim())
+      .map(el => ({ path: el.dataset.path, hunk: el.dataset.hunk, comment: el.value.trim() }));
+  }
+
+  // 渲染请求标签（只有一个请求时隐藏）
+  function renderRequestTabs(requests, activeId) {
+    requestTabs.innerHTML = '';
+    requestTabs.classList.toggle('hidden', requests.length <= 1);
+    requests.forEach((r, index) => {
+      const firstLine = (r.summary || '').split('\n')[0];
+      const tab = document.createElement('button');
+      tab.className = 'request-tab' + (r.requestId === activeId ? ' active' : '');
+      tab.textContent = (index + 1) + '. ' + firstLine;
+      tab.title = firstLine;
+      tab.onclick = () => vscode.postMessage({ type: 'selectRequest', payload: { requestId: r.requestId } });
+      requestTabs.appendChild(tab);
+    });
+  }
+
   // 粘贴图片支持
   document.addEventListener('paste', (e) => {
     const items = e.clipboardData?.items;
@@ -200,8 +973,15 @@
   }
 
   // 提交反馈
-  function submitFeedback() {
+  function submitFeedback(approvalDecision) {
     if (!currentRequestId) return;
+    if (currentKind === 'approval' && !approvalDecision) return;
+
+    let formValues;
+    if (formFields.length > 0) {
+      formValues = collectFormValues();
+      if (!validateForm(formValues)) return;
+    }
     
     vscode.postMessage({
       type: 'submitFeedback',
@@ -210,16 +990,24 @@
         interactive_feedback: feedbackInput.value.trim(),
         images: uploadedImages,
         attachedFiles: attachedFiles,
-        project_directory: currentProjectDir
+        project_directory: currentProjectDir,
+        selectedOptions: selectedOptions,
+        formValues: formValues,
+        approvalDecision: approvalDecision,
+        approvalEdits: approvalDecision === 'approved_with_edits' ? approvalDetails.value : undefined,
+        diffComments: collectDiffComments(),
+        inlineFileContents: inlineFileContents,
+        contextItems: contextItems
       }
     });
     
     // 重置表单
-    feedbackInput.value = '';
-    uploadedImages = [];
-    attachedFiles = [];
-    imagePreview.innerHTML = '';
-    fileList.innerHTML = '';
+    resetForm();
+    requestOptions = [];
+    renderOptions();
+    formFields = [];
+    renderForm();
+    renderChanges(null, false);
     currentRequestId = '';
     vscode.setState({}); // 清除保存的文本
     
@@ -229,7 +1017,22 @@
     }
   }
 
-  submitBtn.addEventListener('click', submitFeedback);
+  submitBtn.addEventListener('click', () => submitFeedback());
+  document.getElementById('approveBtn').addEventListener('click', () => submitFeedback('approved'));
+  document.getElementById('approveWithEditsBtn').addEventListener('click', () => submitFeedback('approved_with_edits'));
+  document.getElementById('rejectBtn').addEventListener('click', () => submitFeedback('rejected'));
+  // 跳过请求 / 结束对话（结束对话由插件弹窗确认）
+  function cancelRequest(reason) {
+    if (!currentRequestId) return;
+    vscode.postMessage({ type: 'cancelRequest', payload: { requestId: currentRequestId, reason: reason } });
+  }
+  document.getElementById('dismissBtn').addEventListener('click', () => cancelRequest('dismissed'));
+  document.getElementById('endSessionBtn').addEventListener('click', () => cancelRequest('ended'));
+  // 修改了操作内容时，只能"修改后批准"
+  approvalDetails.addEventListener('input', () => {
+    document.getElementById('approveBtn').disabled = approvalDetails.value !== originalDetails;
+    notifyTyping();
+  });
   feedbackInput.addEventListener('keydown', (e) => {
     // 如果正在使用输入法（如中文输入），不触发提交
     if (isComposing || e.isComposing) return;
@@ -256,13 +1059,37 @@
     const message = event.data;
     
     switch (message.type) {
-      case 'showFeedbackRequest':
+      case 'showFeedbackRequest': {
+        const isSameRequest = message.payload.requestId === currentRequestId;
+        if (isSameRequest) {
+          // 同一请求重新显示时保留已输入的表单值和评论
+          restoredFormValues = collectFormValues();
+          restoredDiffComments = collectDiffComments();
+        }
         waitingStatus.classList.add('hidden');
         feedbackForm.classList.remove('hidden');
+        switchRequest(message.payload.requestId);
+        // 上一个请求超时时未提交的输入（窗口重载后由插件恢复；输入框中仍有内容时保留当前内容）
+        if (!isSameRequest && message.payload.draft && !feedbackInput.value && attachedFiles.length === 0) {
+          restoreDraft(message.payload.draft);
+        }
         currentRequestId = message.payload.requestId;
         currentProjectDir = message.payload.projectDir;
+        imageLimits = message.payload.imageLimits || DEFAULT_IMAGE_LIMITS;
         requestTimestamp = message.payload.timestamp;
         requestTimeout = message.payload.timeout;
+        requestOptions = message.payload.options || [];
+        multiSelect = !!message.payload.multiSelect;
+        renderOptions();
+        formFields = message.payload.fields || [];
+        renderForm();
+        currentKind = message.payload.kind || 'feedback';
+        renderApproval(message.payload, isSameRequest);
+        if (!isSameRequest) {
+          inlineFileContents = !!message.payload.inlineFiles;
+          inlineFilesBtn.classList.toggle('active', inlineFileContents);
+        }
+        renderChanges(message.payload.changes, !!message.payload.changes || message.payload.hasChanges);
         summaryContent.innerHTML = renderMarkdown(message.payload.summary);
         summaryContent.scrollTop = 0;
         projectInfo.textContent = '📁 ' + message.payload.projectDir;
@@ -271,7 +1098,39 @@
         updateCountdown();
         countdownInterval = setInterval(updateCountdown, 1000);
         break;
+      }
         
+      case 'updateRequests':
+        openRequestIds = message.payload.requests.map(r => r.requestId);
+        for (const id of Object.keys(drafts)) {
+          if (!openRequestIds.includes(id)) delete drafts[id];
+        }
+        renderRequestTabs(message.payload.requests, message.payload.currentRequestId);
+        break;
+
+      case 'updateTemplates':
+        templates = message.payload.templates || [];
+        renderTemplates();
+        break;
+
+      case 'updateTimeout':
+        // 用户正在输入，Server 延长了等待时间
+        if (message.payload.requestId === currentRequestId) {
+          requestTimeout = message.payload.timeout;
+          if (countdownInterval) clearInterval(countdownInterval);
+          updateCountdown();
+          countdownInterval = setInterval(updateCountdown, 1000);
+        }
+        break;
+
+      case 'showChanges':
+        if (message.payload.requestId === currentRequestId) {
+          // 保留已输入的评论
+          restoredDiffComments = collectDiffComments();
+          renderChanges(message.payload.changes, true);
+        }
+        break;
+
       case 'showWaiting':
         feedbackForm.classList.add('hidden');
         waitingStatus.classList.remove('hidden');
@@ -303,11 +1162,23 @@
         debugTooltip.textContent = `🔍 ${debugLabel}\n━━━━━━━━━━━━\n${scanPortLabel}: ${d.portRange}\n${workspaceLabel}: ${d.workspacePath}\n${currentPortLabel}: ${d.activePort || '-'}\n${connectedLabel}: ${d.connectedPorts.length > 0 ? d.connectedPorts.join(', ') : noneLabel}\n${statusLabel}: ${d.lastStatus}`;
         break;
         
+      case 'updateHistory':
+        historyEntries = message.payload.entries || [];
+        if (!historyPanel.classList.contains('hidden')) renderHistory();
+        break;
+
       case 'filesSelected':
-        if (message.payload.paths) {
+        if (message.payload.target) {
+          const input = formArea.querySelector('[data-field="' + CSS.escape(message.payload.target) + '"]');
+          if (input && message.payload.paths[0]) input.value = message.payload.paths[0];
+        } else if (message.payload.paths) {
           for (const path of message.payload.paths) addAttachedFile(path);
         }
         break;
+
+      case 'contextAttached':
+        addContextItem(message.payload);
+        break;
     }
   });
 